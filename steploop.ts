@@ -19,9 +19,573 @@
  *
  * The loop can run indefinitely or for a set number of steps, and its execution can be precisely controlled, allowing it to be paused, resumed, and dynamically modified at runtime.
  *
+ * Instead of (or in addition to) overriding methods, listeners can be attached to each stage with {@link StepLoop.on()}, and a loop can be built from a plain object of hooks with {@link create_loop()}.
+ *
+ * ### Time
+ *
+ * A {@link StepLoop} reads the time and schedules its steps through a {@link Clock}. The default {@link SystemClock} uses the host environment's timers, while a {@link ManualClock} only moves forward when told to, so a loop can be driven synchronously and deterministically. For step rates in the hundreds or thousands of steps per second, a {@link PreciseClock} finishes each wait with {@link setImmediate()} or a short busy-wait to avoid timer granularity.
+ *
  * @module steploop
  */
 
+/**
+ * The time source and scheduler used by a {@link StepLoop}. Every timestamp the loop reads and every step it schedules goes through its {@link Clock}.
+ *
+ * By default, a {@link StepLoop} uses a {@link SystemClock}, which is backed by {@link performance.now()}, {@link setTimeout()} and {@link window.requestAnimationFrame()}. Provide a {@link ManualClock} (or your own implementation) through {@link StepLoopOptions} to control time yourself.
+ *
+ * @interface
+ */
+export interface Clock {
+    /** Returns the current time, in milliseconds. */
+    now(): number;
+    /** Schedules `callback` to run after `delay` milliseconds and returns a handle that can be passed to {@link Clock.clear_timeout()}. */
+    set_timeout(callback: () => void, delay: number): unknown;
+    /** Cancels a callback scheduled with {@link Clock.set_timeout()}. */
+    clear_timeout(handle: unknown): void;
+    /** Returns `true` if the clock can schedule display frames with {@link Clock.request_frame()}. */
+    has_frames(): boolean;
+    /** Schedules `callback` to run on the next display frame and returns a handle that can be passed to {@link Clock.cancel_frame()}. */
+    request_frame(callback: (timestamp: number) => void): unknown;
+    /** Cancels a callback scheduled with {@link Clock.request_frame()}. */
+    cancel_frame(handle: unknown): void;
+    /** Optional. Calls `callback` with `true` when the page is hidden and `false` when it is visible again, and returns a function that stops watching. */
+    watch_visibility?(callback: (hidden: boolean) => void): () => void;
+}
+
+/**
+ * Timing information and the user state of the step being executed, passed to {@link StepLoop.background()}, {@link StepLoop.before()}, {@link StepLoop.step()} and {@link StepLoop.after()}.
+ *
+ * Use {@link StepContext.delta_ms} or {@link StepContext.delta_s} to scale updates by the time that has passed, so behavior does not depend on the step rate.
+ *
+ * @interface
+ */
+export interface StepContext<TState = unknown> {
+    /** the number of the step being executed; the same value as {@link StepLoop.get_step()} during the step */
+    readonly step: number;
+    /** the loop time since the previous step, in milliseconds; `0` for the first step, except in fixed-step mode, where it is always exactly `1000 / sps`; scaled by {@link StepContext.time_scale} */
+    readonly delta_ms: number;
+    /** the loop time since the previous step, in seconds */
+    readonly delta_s: number;
+    /** the loop time that has passed since the first step, in milliseconds; time spent paused is not counted */
+    readonly elapsed_ms: number;
+    /** the rate loop time passes at relative to real time, see {@link StepLoop.set_time_scale()} */
+    readonly time_scale: number;
+    /** the time the step was scheduled to execute at, read from the loop's {@link Clock} */
+    readonly scheduled_time: number;
+    /** the time the step actually executed at, read from the loop's {@link Clock} */
+    readonly actual_time: number;
+    /** how late the step executed, in milliseconds (`actual_time - scheduled_time`); negative if it executed early */
+    readonly lateness: number;
+    /** the number of whole steps the loop was behind schedule when the step executed, not counting the step itself; under the `"batch"` and `"drop"` catch-up policies, this includes the steps that were dropped (see {@link CatchUpPolicy}) */
+    readonly missed_steps: number;
+    /** the user state of the loop, see {@link StepLoop.get_user_state()}; `undefined` if none was supplied */
+    readonly state: TState | undefined;
+    /** a copy of the user state as it was at the end of the previous step, when {@link StepLoopOptions.keep_previous_state} is enabled; `undefined` otherwise, and on the first step */
+    readonly previous_state: TState | undefined;
+}
+
+/**
+ * The events emitted by a {@link StepLoop}, mapped to the arguments their listeners receive. Each event is emitted right after the {@link StepLoop} method of the same stage is called. The type parameters are those of the {@link StepLoop}, so listeners receive its typed inputs and user state.
+ *
+ * @interface
+ */
+export interface StepLoopEvents<TInput = unknown, TState = unknown> {
+    /** emitted after {@link StepLoop.initial()} */
+    initial: [];
+    /** emitted after {@link StepLoop.background()} is started; listeners may return a promise */
+    background: [context: StepContext<TState>, signal: AbortSignal];
+    /** emitted after {@link StepLoop.before()} */
+    before: [context: StepContext<TState>];
+    /** emitted after {@link StepLoop.step()} */
+    step: [context: StepContext<TState>];
+    /** emitted after {@link StepLoop.after()} */
+    after: [context: StepContext<TState>];
+    /** emitted after {@link StepLoop.render()} */
+    render: [alpha: number];
+    /** emitted after {@link StepLoop.final()} */
+    final: [reason: StepLoopEndReason];
+    /** emitted after {@link StepLoop.on_pause()} */
+    pause: [];
+    /** emitted after {@link StepLoop.on_play()} */
+    play: [];
+    /** emitted after {@link StepLoop.on_error()} */
+    error: [record: StepLoopErrorRecord];
+    /** emitted after {@link StepLoop.on_overrun()} */
+    overrun: [duration_ms: number, context: StepContext<TState>];
+    /** emitted after {@link StepLoop.on_sps_change()} */
+    sps_change: [sps: number, previous: number];
+    /** emitted after {@link StepLoop.on_input()} */
+    input: [input: TInput, context: StepContext<TState>];
+    /** emitted after {@link StepLoop.on_state_change()} */
+    state_change: [state: StepLoopState, previous: StepLoopState];
+}
+
+/**
+ * The stages of the {@link StepLoop} lifecycle, as reported in a {@link StepLoopErrorRecord}.
+ */
+export type StepLoopStage = 'initial' | 'background' | 'before' | 'step' | 'after' | 'render' | 'final' | 'pause' | 'play' | 'overrun' | 'sps_change' | 'timer' | 'input' | 'state_change' | 'stop_condition' | 'plugin' | 'copy_state';
+
+/**
+ * Why a {@link StepLoop} ended, as passed to {@link StepLoop.final()}:
+ *
+ * - `"lifespan"`: the number of steps reached the lifespan of the loop (see {@link StepLoop.set_lifespan()})
+ * - `"duration"`: the elapsed loop time reached the duration of the loop (see {@link StepLoop.set_duration()})
+ * - `"deadline"`: the clock reached the deadline of the loop (see {@link StepLoop.set_deadline()})
+ * - `"condition"`: a stop condition returned `true` (see {@link StepLoop.stop_when()})
+ * - `"finish"`: {@link StepLoop.finish()} was called
+ * - `"error"`: an error ended the loop under the `'finish'` error policy
+ */
+export type StepLoopEndReason = 'lifespan' | 'duration' | 'deadline' | 'condition' | 'finish' | 'error';
+
+/**
+ * The lifecycle state of a {@link StepLoop}, as returned by {@link StepLoop.get_state()}:
+ *
+ * - `"idle"`: the loop has not been started, or has been reset with {@link StepLoop.reset()}
+ * - `"running"`: the loop is executing steps
+ * - `"paused"`: the loop has been paused with {@link StepLoop.pause()}
+ * - `"finished"`: the termination stage has been executed
+ */
+export type StepLoopState = 'idle' | 'running' | 'paused' | 'finished';
+
+/**
+ * What a {@link StepLoop} does when a hook or listener throws (or, for {@link StepLoop.background()}, rejects):
+ *
+ * - `"continue"`: keep running as if nothing happened
+ * - `"skip_step"`: skip the rest of the current step and move on to the next one
+ * - `"pause"`: skip the rest of the current step and pause the loop
+ * - `"finish"`: keep running until {@link StepLoopOptions.max_consecutive_errors} errors happen without a clean step in between, then finish the loop
+ */
+export type ErrorPolicy = 'continue' | 'skip_step' | 'pause' | 'finish';
+
+/**
+ * What a {@link StepLoop} does when an asynchronous step is still pending at the deadline of the next step:
+ *
+ * - `"wait"`: wait for the pending step to resolve, then catch up on the steps that were missed
+ * - `"skip"`: wait for the pending step to resolve, then skip the steps that were missed and resume at the next deadline
+ * - `"overlap"`: start the next step anyway, up to {@link StepLoopOptions.max_concurrent_steps} steps at once, then wait
+ */
+export type OverrunPolicy = 'wait' | 'skip' | 'overlap';
+
+/**
+ * What a {@link StepLoop} does when it falls behind schedule, e.g. because the event loop stalled or display frames stopped while the page was hidden:
+ *
+ * - `"burst"`: run one missed step per tick, back to back, until the loop has caught up; in fixed-step mode, run every missed step in the next frame
+ * - `"batch"`: run up to {@link StepLoopOptions.max_catch_up_steps} missed steps in one tick, then drop the rest of the backlog
+ * - `"drop"`: drop the backlog, run a single step and re-anchor the schedule to it
+ *
+ * Under `"batch"` and `"drop"`, each step run in one tick advances loop time by one interval (`1000 / sps`), and the last one by the rest of the time since the previous step; the time of the dropped steps is not counted in {@link StepContext.delta_ms} or {@link StepContext.elapsed_ms}, so the simulation does not jump ahead.
+ */
+export type CatchUpPolicy = 'burst' | 'batch' | 'drop';
+
+/**
+ * A structured record of an error thrown in a {@link StepLoop}, returned by {@link StepLoop.get_errors()}.
+ *
+ * @interface
+ */
+export interface StepLoopErrorRecord {
+    /** the value that was thrown */
+    readonly error: unknown;
+    /** the stage of the lifecycle the error was thrown in */
+    readonly stage: StepLoopStage;
+    /** the step the error was thrown in; for {@link StepLoop.background()}, the step that started the work that failed */
+    readonly step: number;
+    /** the time the error was caught, read from the loop's {@link Clock} */
+    readonly time: number;
+}
+
+/**
+ * A listener for one of the {@link StepLoopEvents}.
+ */
+export type StepLoopListener<K extends keyof StepLoopEvents, TInput = unknown, TState = unknown> = (...args: StepLoopEvents<TInput, TState>[K]) => void | Promise<void>;
+
+/**
+ * The lifecycle methods of a {@link StepLoop}, as a plain object of hooks that can be passed to {@link create_loop()}. Each hook is called with `this` set to the loop.
+ *
+ * @interface
+ */
+export interface StepLoopHooks<TInput = unknown, TState = unknown> {
+    initial?(this: StepLoop<TInput, TState>): TState | void;
+    background?(this: StepLoop<TInput, TState>, context: StepContext<TState>, signal: AbortSignal): Promise<void>;
+    before?(this: StepLoop<TInput, TState>, context: StepContext<TState>): void | Promise<void>;
+    step?(this: StepLoop<TInput, TState>, context: StepContext<TState>): void | Promise<void>;
+    after?(this: StepLoop<TInput, TState>, context: StepContext<TState>): void | Promise<void>;
+    render?(this: StepLoop<TInput, TState>, alpha: number): void;
+    final?(this: StepLoop<TInput, TState>, reason: StepLoopEndReason): void;
+    on_pause?(this: StepLoop<TInput, TState>): void;
+    on_play?(this: StepLoop<TInput, TState>): void;
+    on_error?(this: StepLoop<TInput, TState>, error: unknown, stage: StepLoopStage, step: number): void;
+    on_overrun?(this: StepLoop<TInput, TState>, duration_ms: number, context: StepContext<TState>): void;
+    on_sps_change?(this: StepLoop<TInput, TState>, sps: number, previous: number): void;
+    on_input?(this: StepLoop<TInput, TState>, input: TInput, context: StepContext<TState>): void;
+    on_state_change?(this: StepLoop<TInput, TState>, state: StepLoopState, previous: StepLoopState): void;
+    save_state?(this: StepLoop<TInput, TState>): unknown;
+    load_state?(this: StepLoop<TInput, TState>, state: unknown): void;
+    copy_state?(this: StepLoop<TInput, TState>, state: TState): TState;
+}
+
+const HOOK_NAMES = ['initial', 'background', 'before', 'step', 'after', 'render', 'final', 'on_pause', 'on_play', 'on_error', 'on_overrun', 'on_sps_change', 'on_input', 'on_state_change', 'save_state', 'load_state', 'copy_state'] as const;
+
+const STEP_STAGES = ['before', 'step', 'after'] as const;
+
+function is_thenable(value: unknown): value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown> | undefined)?.then === 'function';
+}
+
+function push_bounded<T>(values: T[], value: T, limit: number): void {
+    values.push(value);
+    if (values.length > limit) {
+        values.splice(0, values.length - limit);
+    }
+}
+
+// A fixed-capacity buffer that overwrites its oldest item, so recording stays O(1) however long it runs
+class RingBuffer<T> {
+    private _items: T[] = [];
+    private _start: number = 0;
+    private _capacity: number;
+
+    constructor(capacity: number) {
+        this._capacity = Math.max(0, Math.floor(capacity));
+    }
+
+    public push(item: T): void {
+        if (this._capacity === 0) return;
+
+        if (this._items.length < this._capacity) {
+            this._items.push(item);
+        } else {
+            this._items[this._start] = item;
+            this._start = (this._start + 1) % this._capacity;
+        }
+    }
+
+    public to_array(): T[] {
+        return [...this._items.slice(this._start), ...this._items.slice(0, this._start)];
+    }
+
+    public clear(): void {
+        this._items = [];
+        this._start = 0;
+    }
+}
+
+function mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const rank = Math.ceil((p / 100) * sorted.length) - 1;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, rank))]!;
+}
+
+// Callbacks use method syntax so a StepLoop<TInput, TState> stays assignable to a StepLoop
+type ReplayState<TInput> = { inputs: Map<number, TInput[]>, rates: Map<number, RecordedRate>, first_step: number, deltas: number[], pace: number };
+
+type LoopTimer<TState> = { kind: 'step' | 'time', due: number, every: number | undefined, callback(context: StepContext<TState>): void };
+
+type SystemEntry<TState> = { system: StepLoopSystem<TState>, phase: 'before' | 'step' | 'after', priority: number, enabled: boolean, runs: number, last_time: number, total_time: number };
+
+type QueuedInput<TInput> = { input: TInput, due: number | undefined, order: number };
+
+type ListenerEntry<K extends keyof StepLoopEvents, TInput, TState> = { callback(...args: StepLoopEvents<TInput, TState>[K]): void | Promise<void>, priority: number, once: boolean };
+
+type ListenerMap<TInput, TState> = { [K in keyof StepLoopEvents]?: ListenerEntry<K, TInput, TState>[] };
+
+/**
+ * Timing statistics over the most recent steps of a {@link StepLoop}, returned by {@link StepLoop.get_stats()}. Durations are in milliseconds; every value is `0` until enough steps have executed.
+ *
+ * @interface
+ */
+export interface StepLoopStats {
+    /** the number of steps in the window the statistics are computed over */
+    readonly samples: number;
+    /** the mean real steps-per-second over the window */
+    readonly mean_sps: number;
+    /** the lowest real steps-per-second over the window (from the longest frame) */
+    readonly min_sps: number;
+    /** the highest real steps-per-second over the window (from the shortest frame that is not `0`) */
+    readonly max_sps: number;
+    /** the median time between steps */
+    readonly frame_time_p50: number;
+    /** the 95th percentile of the time between steps */
+    readonly frame_time_p95: number;
+    /** the 99th percentile of the time between steps */
+    readonly frame_time_p99: number;
+    /** the standard deviation of the time between steps */
+    readonly jitter: number;
+    /** the mean time spent executing the hooks of a step */
+    readonly mean_hook_time: number;
+    /** the longest time spent executing the hooks of a step */
+    readonly max_hook_time: number;
+    /** the number of overruns since the loop started, see {@link StepLoop.on_overrun()} */
+    readonly overruns: number;
+}
+
+/**
+ * Options for adaptive step rate mode, see {@link StepLoop.set_adaptive_sps()}.
+ *
+ * @interface
+ */
+export interface AdaptiveSpsOptions {
+    /** the lowest steps-per-second the loop can be lowered to */
+    min_sps: number;
+    /** the highest steps-per-second the loop can be raised back to; default value is the loop's steps-per-second when adaptive mode is enabled */
+    max_sps?: number;
+    /** the number of most recent steps overruns are counted over; default value is `30` */
+    window?: number;
+    /** the number of overruns within the window that lower the steps-per-second; default value is `3` */
+    overrun_threshold?: number;
+    /** the factor the steps-per-second is multiplied by when it is lowered; default value is `0.75` */
+    decrease_factor?: number;
+    /** the factor the steps-per-second is multiplied by when it is raised; default value is `1.25` */
+    increase_factor?: number;
+    /** the fraction of the interval between steps a step's hooks must stay under to count as headroom; default value is `0.5` */
+    headroom?: number;
+    /** the number of steps in a row with headroom that raise the steps-per-second; default value is `60` */
+    recovery_steps?: number;
+}
+
+/**
+ * A named unit of logic that runs as part of every step of a {@link StepLoop}, registered with {@link StepLoop.add_system()}.
+ *
+ * @interface
+ */
+export interface StepLoopSystem<TState = unknown> {
+    /** the unique name of the system */
+    name: string;
+    /** the stage of the step the system runs in; default value is `"step"` */
+    phase?: 'before' | 'step' | 'after';
+    /** systems with a higher priority run first within their phase; default value is `0` */
+    priority?: number;
+    /** `false` to register the system without running it; default value is `true` */
+    enabled?: boolean;
+    /** the logic of the system, called once per step with timing information about the step */
+    run(context: StepContext<TState>): void;
+}
+
+/**
+ * Information about a system registered with {@link StepLoop.add_system()}, returned by {@link StepLoop.get_systems()}. Durations are in milliseconds and are counted from when the loop started.
+ *
+ * @interface
+ */
+export interface StepLoopSystemInfo {
+    /** the name of the system */
+    readonly name: string;
+    /** the stage of the step the system runs in */
+    readonly phase: 'before' | 'step' | 'after';
+    /** the priority of the system within its phase */
+    readonly priority: number;
+    /** `true` if the system runs */
+    readonly enabled: boolean;
+    /** the number of times the system has run */
+    readonly runs: number;
+    /** the time the last run of the system took */
+    readonly last_time: number;
+    /** the mean time a run of the system took */
+    readonly mean_time: number;
+    /** the total time spent running the system */
+    readonly total_time: number;
+}
+
+/**
+ * A reusable behavior that can be added to any {@link StepLoop} with {@link StepLoop.use()}, such as an FPS counter, a logger or an input handler.
+ *
+ * {@link StepLoopPlugin.install()} is called each time the loop starts, before {@link StepLoop.initial()}, in the order the plugins were added. It can hook any stage with {@link StepLoop.on()}, register systems with {@link StepLoop.add_system()} and keep its own state on the plugin object, where other code can reach it with {@link StepLoop.get_plugin()}. The function it returns, if any, is its cleanup: it is called when the loop ends, after {@link StepLoop.final()}, in the reverse order, and should undo what `install()` did.
+ *
+ * @interface
+ */
+export interface StepLoopPlugin {
+    /** the unique name of the plugin */
+    readonly name: string;
+    /** the names of the plugins this plugin depends on; they must be added with {@link StepLoop.use()} first */
+    readonly dependencies?: readonly string[];
+    /** sets up the plugin on `loop` and optionally returns a cleanup function */
+    install(loop: StepLoop): void | (() => void);
+}
+
+/**
+ * An input recorded by {@link StepLoop.start_recording()}, tagged with the step it was applied on.
+ *
+ * @interface
+ */
+export interface RecordedInput<TInput = unknown> {
+    /** the step the input was applied on */
+    readonly step: number;
+    /** the input, as passed to {@link StepLoop.send_input()} or {@link StepLoop.enqueue()} */
+    readonly input: TInput;
+}
+
+/**
+ * A change to the steps-per-second or time scale of a {@link StepLoop} made while recording, see {@link StepLoop.start_recording()}.
+ *
+ * @interface
+ */
+export interface RecordedRate {
+    /** the first step executed at the new rate */
+    readonly step: number;
+    /** the steps-per-second from that step on */
+    readonly sps: number;
+    /** the time scale from that step on */
+    readonly time_scale: number;
+}
+
+/**
+ * A recording of every input applied to a {@link StepLoop}, returned by {@link StepLoop.stop_recording()} and replayed with {@link StepLoop.replay()}. Along with the inputs, it holds what the loop needs to pass loop time exactly as it did: the rate changes and the delta time of each step. Recordings are plain objects that can be saved with {@link JSON.stringify()} as long as the inputs themselves can be.
+ *
+ * @interface
+ */
+export interface InputRecording<TInput = unknown> {
+    /** the version of the recording format */
+    readonly version: 1;
+    /** the steps-per-second of the loop when the recording started */
+    readonly sps: number;
+    /** the time scale of the loop when the recording started */
+    readonly time_scale: number;
+    /** the number of steps the loop had executed when the recording stopped */
+    readonly steps: number;
+    /** the first step executed while recording */
+    readonly first_step: number;
+    /** the recorded inputs, in the order they were applied */
+    readonly inputs: RecordedInput<TInput>[];
+    /** the changes to the steps-per-second and time scale made while recording, in the order they were made */
+    readonly rates: RecordedRate[];
+    /** the delta time of each step executed while recording ({@link StepContext.delta_ms}), starting with {@link InputRecording.first_step} */
+    readonly deltas: number[];
+}
+
+/**
+ * A serializable snapshot of the progress of a {@link StepLoop}, returned by {@link StepLoop.snapshot()} and resumed with {@link StepLoop.start_from()}. Snapshots are plain objects that can be saved with {@link JSON.stringify()} as long as the user state can be.
+ *
+ * @interface
+ */
+export interface StepLoopSnapshot {
+    /** the version of the snapshot format */
+    readonly version: 1;
+    /** the number of steps the loop had executed */
+    readonly step: number;
+    /** the lifespan of the loop (in steps); missing if the lifespan was unlimited */
+    readonly lifespan?: number;
+    /** the lifespan of the loop as a duration of loop time, in milliseconds (see {@link StepLoop.set_duration()}); missing if the loop had no duration */
+    readonly duration?: number;
+    /** the steps-per-second of the loop */
+    readonly sps: number;
+    /** the loop time that had passed since the first step, in milliseconds */
+    readonly elapsed_ms: number;
+    /** the time scale of the loop */
+    readonly time_scale: number;
+    /** the user state returned by {@link StepLoop.save_state()} */
+    readonly state: unknown;
+}
+
+/**
+ * Options for the profiler of a {@link StepLoop}, see {@link StepLoop.set_profiler()}.
+ *
+ * @interface
+ */
+export interface ProfilerOptions {
+    /** the number of most recent spans kept; older spans are overwritten; default value is `10000` */
+    capacity?: number;
+}
+
+/**
+ * A span of time recorded by the profiler of a {@link StepLoop}, see {@link StepLoop.get_profile()}.
+ *
+ * @interface
+ */
+export interface ProfileSpan {
+    /** the name of the span: the stage for `"stage"` and `"background"` spans, or the name given to {@link StepLoop.span()} */
+    readonly name: string;
+    /** what the span measures: a stage of a step ({@link StepLoop.before()}, {@link StepLoop.step()} or {@link StepLoop.after()} with their systems and listeners), {@link StepLoop.background()} until its promise settles, or a user span */
+    readonly category: 'stage' | 'background' | 'span';
+    /** the step the span was recorded on */
+    readonly step: number;
+    /** the time the span started at, read from the loop's {@link Clock} */
+    readonly start: number;
+    /** how long the span lasted, in milliseconds */
+    readonly duration: number;
+}
+
+/**
+ * An event in the Chrome trace-event format, as exported by {@link StepLoop.export_trace()}.
+ *
+ * @interface
+ */
+export interface TraceEvent {
+    readonly name: string;
+    readonly cat?: string;
+    /** `"X"` for a complete event, `"M"` for metadata */
+    readonly ph: 'X' | 'M';
+    /** the start of the event, in microseconds */
+    readonly ts: number;
+    /** the duration of the event, in microseconds */
+    readonly dur?: number;
+    readonly pid: number;
+    readonly tid: number;
+    readonly args?: Record<string, unknown>;
+}
+
+/**
+ * A capture of the profiler of a {@link StepLoop} in the Chrome trace-event JSON format, returned by {@link StepLoop.export_trace()}. Save it with {@link JSON.stringify()} and open it in `chrome://tracing` or Perfetto.
+ *
+ * @interface
+ */
+export interface ChromeTrace {
+    readonly traceEvents: TraceEvent[];
+    readonly displayTimeUnit: 'ms';
+}
+
+/**
+ * Additional options for a {@link StepLoop}, passed as the last argument of its constructor.
+ *
+ * @interface
+ */
+export interface StepLoopOptions<TState = unknown> {
+    /** the {@link Clock} used to read the time and schedule steps; default value is a new {@link SystemClock} */
+    clock?: Clock;
+    /** `true` to run the loop in fixed-step mode (see {@link StepLoop.set_fixed_step()}); default value is `false` */
+    fixed_step?: boolean;
+    /** what the loop does when a hook throws (see {@link ErrorPolicy}); default value is `"continue"` */
+    error_policy?: ErrorPolicy;
+    /** the number of errors in a row that finish the loop under the `"finish"` policy; default value is `1` */
+    max_consecutive_errors?: number;
+    /** the number of {@link StepLoopErrorRecord}s kept by {@link StepLoop.get_errors()}; default value is `100` */
+    max_error_records?: number;
+    /** what the loop does when an asynchronous step is still pending at the next deadline (see {@link OverrunPolicy}); default value is `"wait"` */
+    overrun_policy?: OverrunPolicy;
+    /** the number of steps that can be pending at once under the `"overlap"` policy; default value is `2` */
+    max_concurrent_steps?: number;
+    /** what the loop does when it falls behind schedule (see {@link CatchUpPolicy}); default value is `"burst"` */
+    catch_up_policy?: CatchUpPolicy;
+    /** the number of missed steps that can run in one tick under the `"batch"` policy; default value is `5` */
+    max_catch_up_steps?: number;
+    /** `true` to pause the loop while the page is hidden and resume it when the page is visible again (see {@link Clock.watch_visibility()}); default value is `false` */
+    pause_when_hidden?: boolean;
+    /** the number of {@link StepLoop.background()} tasks that can run at once; default value is `Infinity` */
+    max_background_tasks?: number;
+    /** `true` to wait for running {@link StepLoop.background()} tasks to settle before calling {@link StepLoop.final()}; default value is `false` */
+    await_background?: boolean;
+    /** the number of most recent steps {@link StepLoop.get_stats()} is computed over; default value is `120` */
+    stats_window?: number;
+    /** options to enable adaptive step rate mode (see {@link StepLoop.set_adaptive_sps()}); default value is `undefined` */
+    adaptive_sps?: AdaptiveSpsOptions;
+    /** options to enable the profiler (see {@link StepLoop.set_profiler()}); default value is `undefined` */
+    profiler?: ProfilerOptions;
+    /** the rate loop time passes at relative to real time (see {@link StepLoop.set_time_scale()}); default value is `1` */
+    time_scale?: number;
+    /** the lifespan of the loop as a duration of loop time, in milliseconds (see {@link StepLoop.set_duration()}); default value is `undefined` */
+    duration?: number;
+    /** a time on the loop's {@link Clock} at which the loop ends (see {@link StepLoop.set_deadline()}); default value is `undefined` */
+    deadline?: number;
+    /** `true` to throw an error when a lifecycle method is called in a state it cannot be called in (see {@link StepLoop.get_state()}), instead of ignoring the call; default value is `false` */
+    strict?: boolean;
+    /** the initial user state of the loop (see {@link StepLoop.get_user_state()}); default value is `undefined` */
+    state?: TState;
+    /** `true` to keep a copy of the user state as it was at the end of the previous step (see {@link StepLoop.set_keep_previous_state()}); default value is `false` */
+    keep_previous_state?: boolean;
+}
+
 /**
  * A base class for building loops that execute at a consistent, specified rate.
  *
@@ -31,6 +595,8 @@
  *
  * The loop can run indefinitely or for a set number of steps, and its execution can be precisely controlled, allowing it to be paused, resumed, and dynamically modified at runtime.
  *
+ * The type parameter `TInput` is the type of the inputs the loop accepts with {@link StepLoop.send_input()} and {@link StepLoop.enqueue()} and applies in {@link StepLoop.on_input()}. The type parameter `TState` is the type of the user state of the loop, which is supplied with {@link StepLoopOptions.state} or returned by {@link StepLoop.initial()}, passed to each step in {@link StepContext.state}, and read with {@link StepLoop.get_user_state()}. By default, both are `unknown`.
+ *
  * @example
  * ```ts
  * import { StepLoop } from "steploop";
@@ -55,7 +621,7 @@
  * ```
  * @class
  */
-export class StepLoop {
+export class StepLoop<TInput = unknown, TState = unknown> {
     private _step_num: number = 0;
     private _lifespan: number | undefined;
 
@@ -64,27 +630,64 @@ export class StepLoop {
     private _startTime: number = 0;
     private _lastStepTime: number = 0;
     private _lastStepDuration: number = 0;
-    private _timeoutId: ReturnType<typeof setTimeout> | undefined;
+    private _pausedTime: number = 0;
+    private _elapsed: number = 0;
+    private _timeoutId: unknown;
+    private _clock: Clock;
+
+    private _duration: number | undefined;
+    private _deadline: number | undefined;
+    private _deadlineTimer: unknown;
+    private _stopConditions: Array<() => boolean> = [];
+    private _endReason: StepLoopEndReason | undefined;
+    private _deferredEnd: (() => void) | undefined;
 
+    private _state: StepLoopState = 'idle';
+    private _strict: boolean;
+    // Incremented for each new run, so async work left over from an older run can tell it is stale
+    private _generation: number = 0;
 
-    private _initialized: boolean = false;
-    private _running: boolean = false;
-    private _paused: boolean = false;
-    private _kill: boolean = false;
+    private _userState: TState | undefined;
+    private _previousUserState: TState | undefined;
+    private _keepPreviousState: boolean;
 
     /**
      * Create a `StepLoop`, with options to define the steps-per-second and the lifespan of the loop.
      * @param {number} sps - the steps-per-second of the loop (note: values that are greater than about 250 may result in unexpected behavior); default value is 60
      * @param {number | undefined} lifespan - the number of steps that are executed before the loop ends; setting to `undefined` will result in an unlimited lifespan; default value is `undefined`
+     * @param {boolean} RAF - `true` to use {@link window.requestAnimationFrame()} when it is available; default value is `false`
+     * @param {StepLoopOptions} options - additional options for the loop, such as the {@link Clock} it uses or its initial user state; default value is `{}`
      */
-    constructor(sps: number = 60, lifespan: number | undefined = undefined, RAF: boolean = false) {
+    constructor(sps: number = 60, lifespan: number | undefined = undefined, RAF: boolean = false, options: StepLoopOptions<TState> = {}) {
         this._lifespan = lifespan;
 
         this._sps = sps;
         this._interval = 1000 / this._sps;
         //this._lastTime = performance.now();
         this._timeoutId = undefined;
+        this._clock = options.clock ?? new SystemClock();
         this._RAFActive = RAF;
+        this._fixedStep = options.fixed_step ?? false;
+        this._errorPolicy = options.error_policy ?? 'continue';
+        this._maxConsecutiveErrors = options.max_consecutive_errors ?? 1;
+        this._maxErrorRecords = options.max_error_records ?? 100;
+        this._overrunPolicy = options.overrun_policy ?? 'wait';
+        this._maxConcurrentSteps = options.max_concurrent_steps ?? 2;
+        this._catchUpPolicy = options.catch_up_policy ?? 'burst';
+        this._maxCatchUpSteps = Math.max(0, options.max_catch_up_steps ?? 5);
+        this._pauseWhenHidden = options.pause_when_hidden ?? false;
+        this._maxBackgroundTasks = options.max_background_tasks ?? Infinity;
+        this._awaitBackground = options.await_background ?? false;
+        this._statsWindow = options.stats_window ?? 120;
+        this.set_adaptive_sps(options.adaptive_sps);
+        this.set_profiler(options.profiler);
+        this._timeScale = Math.max(0, options.time_scale ?? 1);
+        this._strict = options.strict ?? false;
+        this._duration = options.duration;
+        this._deadline = options.deadline;
+        this._userState = options.state;
+        this._keepPreviousState = options.keep_previous_state ?? false;
+        this._reset_completion();
     }
 
     /**
@@ -92,18 +695,21 @@ export class StepLoop {
      *
      * The first code executed in the {@link StepLoop}. Called once at the beginning of the {@link StepLoop} lifecycle, and then moves on to the first {@link StepLoop.background()} call in the looping stage after resolving. Executed right after {@link StepLoop.start()} is called.
      *
-     * @returns {void} `void`
+     * Return a value to make it the user state of the loop (see {@link StepLoop.get_user_state()}), e.g. to start every run with fresh state; return nothing to keep the current state.
+     *
+     * @returns {TState | void} the user state of the loop, or `void`
      * @example
      * ```ts
-     * class App extends StepLoop {
-     *     public override initial(): void {
+     * class App extends StepLoop<unknown, { score: number }> {
+     *     public override initial(): { score: number } {
      *         console.log(`initial: ${Date.now()}`);
+     *         return { score: 0 };
      *     }
      * }
      * ```
      * @instance
      */
-    public initial(): void {
+    public initial(): TState | void {
         return;
     }
 
@@ -112,18 +718,22 @@ export class StepLoop {
      *
      * Executed in the background at the beginning of the looping stage. Called asynchronously before the rest of the loop, executes while the rest of the loop does. Starts before {@link StepLoop.before()} but may not resolve before it is called.
      *
+     * Background tasks are tracked until they settle (see {@link StepLoop.get_background_tasks()}). The `signal` is aborted when the loop is paused or finished, so long-running work can be cancelled. When {@link StepLoopOptions.max_background_tasks} tasks are already running, the background stage is skipped for that step, and with {@link StepLoopOptions.await_background} the termination stage waits for running tasks to settle before calling {@link StepLoop.final()}.
+     *
+     * @param {StepContext} context - timing information about the current step
+     * @param {AbortSignal} signal - a signal that is aborted when the loop is paused or finished
      * @returns {Promise<void>} `Promise<void>`
      * @example
      * ```js
      * class App extends StepLoop {
-     *     public override async background(): Promise<void> {
-     *         console.log(`background: ${this.get_step()}`);
+     *     public override async background(context: StepContext, signal: AbortSignal): Promise<void> {
+     *         await fetch(`/status?step=${context.step}`, { signal: signal });
      *     }
      * }
      * ```
      * @instance
      */
-    public async background(): Promise<void> {
+    public async background(context: StepContext<TState>, signal: AbortSignal): Promise<void> {
         return;
     }
 
@@ -132,7 +742,10 @@ export class StepLoop {
      *
      * Executed in the looping stage before the main {@link StepLoop.step()} code. Resolves before calling {@link StepLoop.step()}. Use this function to set up anything you need before {@link StepLoop.step()} is called.
      *
-     * @returns {void} `void`
+     * May return a promise, in which case the loop waits for it to resolve before moving on; see {@link StepLoop.set_overrun_policy()} for what happens when it is still pending at the next step.
+     *
+     * @param {StepContext} context - timing information about the current step
+     * @returns {void | Promise<void>} `void`, or a promise that resolves when the work is done
      * @example
      * ```ts
      * class App extends StepLoop {
@@ -143,7 +756,7 @@ export class StepLoop {
      * ```
      * @instance
      */
-    public before(): void {
+    public before(context: StepContext<TState>): void | Promise<void> {
         return;
     }
 
@@ -152,18 +765,21 @@ export class StepLoop {
      *
      * The main loop code executed in the looping stage. Called after {@link StepLoop.before()} resolves, and resolves before {@link StepLoop.after()} is called. Use {@link StepLoop.step()} as the main update function of your {@link StepLoop}.
      *
-     * @returns {void} `void`
+     * May return a promise, in which case the loop waits for it to resolve before moving on; see {@link StepLoop.set_overrun_policy()} for what happens when it is still pending at the next step.
+     *
+     * @param {StepContext} context - timing information about the current step
+     * @returns {void | Promise<void>} `void`, or a promise that resolves when the work is done
      * @example
      * ```ts
      * class App extends StepLoop {
-     *     public override step(): void {
-     *         console.log(`step: ${this.get_step()}`);
+     *     public override step(context: StepContext): void {
+     *         console.log(`step: ${context.step} (${context.delta_ms}ms since the last step)`);
      *     }
      * }
      * ```
      * @instance
      */
-    public step(): void {
+    public step(context: StepContext<TState>): void | Promise<void> {
         return;
     }
 
@@ -172,7 +788,10 @@ export class StepLoop {
      *
      * Executed in the looping stage after the main {@link StepLoop.step()} code. Called after {@link StepLoop.step()} resolves. Use this function to clean up anything after {@link StepLoop.step()} resolves.
      *
-     * @returns {void} `void`
+     * May return a promise, in which case the loop waits for it to resolve before moving on; see {@link StepLoop.set_overrun_policy()} for what happens when it is still pending at the next step.
+     *
+     * @param {StepContext} context - timing information about the current step
+     * @returns {void | Promise<void>} `void`, or a promise that resolves when the work is done
      * @example
      * ```ts
      * class App extends StepLoop {
@@ -183,27 +802,49 @@ export class StepLoop {
      * ```
      * @instance
      */
-    public after(): void {
+    public after(context: StepContext<TState>): void | Promise<void> {
+        return;
+    }
+
+    /**
+     * Override {@link StepLoop.render()} to add a block of code to run once per frame when the loop is in fixed-step mode.
+     *
+     * Executed after all of the steps that are due in the current frame have resolved (there may be zero, one or several). Only called when fixed-step mode is enabled with {@link StepLoop.set_fixed_step()}. Use `alpha` to interpolate between the previous and current simulation states, so rendering stays smooth even when the display rate and the step rate differ.
+     *
+     * @param {number} alpha - how far the frame is between the last step and the next one, from `0` (inclusive) to `1` (exclusive)
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     public override render(alpha: number): void {
+     *         console.log(`render: ${this.get_step()} + ${alpha}`);
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public render(alpha: number): void {
         return;
     }
 
     /**
      * Override {@link StepLoop.final()} to add a final block of code to run at the very end of the loop.
      *
-     * The last code executed in the {@link StepLoop}, called after the looping stage is done. Executed once at the end of the {@link StepLoop} lifecycle, and then kills the loop. Called when the number of steps executed is greater than the lifespan of the {@link StepLoop} (i. e. {@link StepLoop.get_step()} `>` {@link StepLoop.get_lifespan()}) or when {@link StepLoop.finish()} is called.
+     * The last code executed in the {@link StepLoop}, called after the looping stage is done. Executed once at the end of the {@link StepLoop} lifecycle, and then kills the loop. Called when the number of steps executed is greater than the lifespan of the {@link StepLoop} (i. e. {@link StepLoop.get_step()} `>` {@link StepLoop.get_lifespan()}), when its duration or deadline is reached, when a stop condition is met, or when {@link StepLoop.finish()} is called.
      *
+     * @param {StepLoopEndReason} reason - which condition ended the loop
      * @returns {void} `void`
      * @example
      * ```ts
      * class App extends StepLoop {
-     *     public override final(): void {
-     *         console.log(`final: ${Date.now()}`);
+     *     public override final(reason: StepLoopEndReason): void {
+     *         console.log(`final: ${Date.now()} (${reason})`);
      *     }
      * }
      * ```
      * @instance
      */
-    public final(): void {
+    public final(reason: StepLoopEndReason): void {
         return;
     }
 
@@ -248,420 +889,3631 @@ export class StepLoop {
     }
 
     /**
-     * Returns `true` if the {@link StepLoop} is running and false otherwise.
+     * Override {@link StepLoop.on_overrun()} to add a block of code to execute when a step overruns.
      *
-     * @returns {boolean} `true` if the loop is currently running
+     * A step overruns when its hooks ({@link StepLoop.before()}, {@link StepLoop.step()} and {@link StepLoop.after()}, including any promises they return) take longer than the interval between steps (`1000 / sps` milliseconds). Called right after the step resolves. Overruns are also counted in {@link StepLoop.get_stats()}.
+     *
+     * @param {number} duration_ms - the time spent executing the hooks of the step, in milliseconds
+     * @param {StepContext} context - timing information about the step that overran
+     * @returns {void} `void`
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
-     * app.start()
-     *
-     * console.log(app.is_running()) // Output -> `true`
+     * class App extends StepLoop {
+     *     public override on_overrun(duration_ms: number, context: StepContext): void {
+     *         console.warn(`step ${context.step} took ${duration_ms}ms`);
+     *     }
+     * }
      * ```
      * @instance
      */
-    public is_running(): boolean {
-        return this._running;
+    public on_overrun(duration_ms: number, context: StepContext<TState>): void {
+        return;
     }
 
     /**
-     * Returns `true` if the {@link StepLoop} is paused and false otherwise.
+     * Override {@link StepLoop.on_sps_change()} to add a block of code to execute when the steps-per-second of the loop changes.
      *
-     * @returns {boolean} `true` if the loop is currently paused
+     * Called after {@link StepLoop.set_sps()} changes the rate, including when adaptive step rate mode lowers or raises it (see {@link StepLoop.set_adaptive_sps()}). Use this to degrade or restore quality on purpose when the loop is under load.
+     *
+     * @param {number} sps - the new steps-per-second
+     * @param {number} previous - the previous steps-per-second
+     * @returns {void} `void`
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
-     * app.start()
-     *
-     * console.log(app.is_paused()) // Output -> `false`
+     * class App extends StepLoop {
+     *     public override on_sps_change(sps: number, previous: number): void {
+     *         console.log(`rate changed from ${previous} to ${sps}`);
+     *     }
+     * }
      * ```
      * @instance
      */
-    public is_paused(): boolean {
-        return this._paused;
+    public on_sps_change(sps: number, previous: number): void {
+        return;
     }
 
     /**
-     * Returns the current step number (the number of times the loop has run).
+     * Override {@link StepLoop.on_state_change()} to add a block of code to execute when the lifecycle state of the loop changes.
      *
-     * @returns {number} the current step number
+     * Called whenever the value returned by {@link StepLoop.get_state()} changes: when the loop is started, paused, played, finished or reset. It is called before the hook of the stage that caused the change, e.g. before {@link StepLoop.initial()} when the loop starts and before {@link StepLoop.final()} when it finishes.
+     *
+     * @param {StepLoopState} state - the new state
+     * @param {StepLoopState} previous - the previous state
+     * @returns {void} `void`
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
-     * app.start()
-     *
-     * console.log(app.get_step()) // Output -> `1`
+     * class App extends StepLoop {
+     *     public override on_state_change(state: StepLoopState, previous: StepLoopState): void {
+     *         console.log(`${previous} -> ${state}`);
+     *     }
+     * }
      * ```
      * @instance
      */
-    public get_step(): number {
-        return this._step_num;
+    public on_state_change(state: StepLoopState, previous: StepLoopState): void {
+        return;
     }
 
     /**
-     * Returns the current steps-per-second (sps).
+     * Override {@link StepLoop.on_input()} to add a block of code to apply an external input to your loop.
      *
-     * @returns {number} the current steps-per-second (sps)
+     * Called at the beginning of a step (before {@link StepLoop.background()}) once for each input that is due on that step: every input sent with {@link StepLoop.send_input()} or {@link StepLoop.enqueue()} since the previous step, and every input enqueued for that step. Due inputs are applied in the order of the step they were enqueued for, then in the order they were enqueued. Apply inputs here, rather than when they arrive, so every input is tied to a step ({@link StepContext.step}) and the loop can be recorded and replayed deterministically (see {@link StepLoop.start_recording()}).
+     *
+     * @param {TInput} input - the input, as passed to {@link StepLoop.send_input()} or {@link StepLoop.enqueue()}
+     * @param {StepContext} context - timing information about the step the input is applied on
+     * @returns {void} `void`
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
-     * app.start()
+     * type Command = { type: "jump" } | { type: "move", x: number };
      *
-     * console.log(app.get_sps()) // Output -> `60`
+     * class App extends StepLoop<Command> {
+     *     public override on_input(input: Command): void {
+     *         if (input.type === "jump") this.player.jump();
+     *     }
+     * }
      * ```
      * @instance
      */
-    public get_sps(): number {
-        return this._sps;
+    public on_input(input: TInput, context: StepContext<TState>): void {
+        return;
     }
 
     /**
-     * Returns the real steps-per-second (sps) based on the time between the last two steps. This value may not be accurate until after the first few steps have completed.
+     * Override {@link StepLoop.save_state()} to add your loop's own state to the snapshots returned by {@link StepLoop.snapshot()}.
      *
-     * @returns {number} the real steps-per-second (sps)
+     * Called by {@link StepLoop.snapshot()}. The returned value is stored as {@link StepLoopSnapshot.state} and given back to {@link StepLoop.load_state()} when the loop is resumed with {@link StepLoop.start_from()}, so it should be serializable with {@link JSON.stringify()}.
+     *
+     * @returns {unknown} the state of the loop; by default the user state (see {@link StepLoop.get_user_state()})
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
-     * app.start()
+     * class App extends StepLoop {
+     *     score: number = 0;
      *
-     * console.log(app.get_real_sps())
+     *     public override save_state(): unknown {
+     *         return { score: this.score };
+     *     }
+     * }
      * ```
      * @instance
      */
-    public get_real_sps(): number {
-        if (this._lastStepDuration === 0) {
-            return 0;
-        }
-        return 1000 / this._lastStepDuration;
+    public save_state(): unknown {
+        return this._userState;
     }
 
     /**
-     * Returns the current lifespan of the {@link StepLoop} (in steps).
+     * Override {@link StepLoop.load_state()} to restore your loop's own state when it is resumed from a snapshot.
      *
-     * @returns {number | undefined} the current loop lifespan; returns `undefined` if the lifespan is unlimited
+     * Called by {@link StepLoop.start_from()} right after {@link StepLoop.initial()}, with the value {@link StepLoop.save_state()} returned when the snapshot was taken. By default, a saved value other than `undefined` becomes the user state (see {@link StepLoop.set_user_state()}).
+     *
+     * @param {unknown} state - the state saved in the snapshot
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     score: number = 0;
+     *
+     *     public override load_state(state: unknown): void {
+     *         this.score = (state as { score: number }).score;
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public load_state(state: unknown): void {
+        if (state !== undefined) this.set_user_state(state as TState);
+    }
+
+    /**
+     * Override {@link StepLoop.copy_state()} to change how the user state is copied when the previous state is kept, e.g. for states that cannot be copied with {@link structuredClone()}.
+     *
+     * Called at the beginning of each step, before inputs are applied, when {@link StepLoopOptions.keep_previous_state} is enabled (see {@link StepLoop.set_keep_previous_state()}). The returned copy becomes {@link StepContext.previous_state}, so it must not share mutable parts with the state.
+     *
+     * @param {TState} state - the user state to copy
+     * @returns {TState} a copy of the state; by default made with {@link structuredClone()}
+     * @example
+     * ```ts
+     * class App extends StepLoop<unknown, World> {
+     *     public override copy_state(world: World): World {
+     *         return world.clone();
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public copy_state(state: TState): TState {
+        return structuredClone(state);
+    }
+
+    /**
+     * Override {@link StepLoop.on_error()} to add a block of code to execute when a hook or listener throws an error.
+     *
+     * Called with the error, the stage of the lifecycle it was thrown in and the current step, right before the loop applies its {@link ErrorPolicy}. By default, logs the error with {@link console.error()}; overriding this method replaces that output. Every error is also kept as a {@link StepLoopErrorRecord}, see {@link StepLoop.get_errors()}.
+     *
+     * @param {unknown} error - the value that was thrown
+     * @param {StepLoopStage} stage - the stage of the lifecycle the error was thrown in
+     * @param {number} step - the step the error was thrown in (see {@link StepLoopErrorRecord.step})
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     public override on_error(error: unknown, stage: StepLoopStage, step: number): void {
+     *         report(`${stage} failed on step ${step}`, error);
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public on_error(error: unknown, stage: StepLoopStage, step: number): void {
+        console.error(`Error in ${stage}():`, error);
+    }
+
+    /**
+     * Returns `true` if the {@link StepLoop} is running and false otherwise.
+     *
+     * @returns {boolean} `true` if the loop is currently running
      * @example
      * ```ts
      * class App extends StepLoop {}
-     * let app: App = new App(500);
+     * let app: App = new App();
      * app.start()
      *
-     * console.log(app.get_lifespan()) // Output -> `500`
+     * console.log(app.is_running()) // Output -> `true`
      * ```
      * @instance
      */
-    public get_lifespan(): number | undefined {
-        return this._lifespan;
+    public is_running(): boolean {
+        return this._state === 'running';
     }
 
     /**
-     * Sets the current steps-per-second (sps). Alters the speed at which the {@link StepLoop} runs: higher values will result in more steps in a faster step-speed and lower values will result in a lower step-speed. Default speed is 60 steps-per-second.
+     * Returns `true` if the {@link StepLoop} is paused and false otherwise.
      *
-     * @param {number} sps - the target steps-per-second; default value is `60`
-     * @returns {number} the new steps-per-second
+     * @returns {boolean} `true` if the loop is currently paused
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      * app.start()
      *
-     * console.log(app.set_sps(120)) // Output -> `120`
+     * console.log(app.is_paused()) // Output -> `false`
      * ```
      * @instance
      */
-    public set_sps(sps: number): number {
-        //if (this._initialized) return this._sps;;
-
-        this._sps = sps;
-        this._interval = 1000/this._sps
-        return this._sps;
+    public is_paused(): boolean {
+        return this._state === 'paused';
     }
 
     /**
-     * Set whether or not to use {@link window.requestAnimationFrame()} for the {@link StepLoop}. When set to `true`, the loop will synchronize with the browser's rendering cycle (if the loop is running in a browser), which can result in smoother animations and better performance. When disabled, the loop will use a step-scheduler based on {@link setTimeout()}, which may be less efficient but more predictable.
+     * Returns the lifecycle state of the {@link StepLoop}: `"idle"` before it is started, `"running"`, `"paused"`, or `"finished"` after the termination stage. See {@link StepLoopState}.
      *
-     * @param {boolean} status - `true` to use `requestAnimationFrame`, `false` to use the step scheduler.
-     * @returns {boolean} the new status of `requestAnimationFrame`
+     * @returns {StepLoopState} the current state of the loop
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
+     * console.log(app.get_state()) // Output -> `"idle"`
      *
-     * app.set_use_RAF(true)
      * app.start()
+     * console.log(app.get_state()) // Output -> `"running"`
      * ```
      * @instance
      */
-    public set_use_RAF(status: boolean): boolean {
-        this._RAFActive = status;
-        return this._RAFActive;
+    public get_state(): StepLoopState {
+        return this._state;
     }
 
     /**
-     * Set the lifespan of the {@link StepLoop} to the specified number of steps, or removes the limit on the {@link StepLoop}'s lifespan (will run until {@link StepLoop.finish()} is called).
+     * Returns the user state of the {@link StepLoop}: the value supplied with {@link StepLoopOptions.state}, returned by {@link StepLoop.initial()} or set with {@link StepLoop.set_user_state()}. The same value is passed to each step as {@link StepContext.state}.
      *
-     * If {@link StepLoop.set_lifespan()} is called after the lifespan limit is reached, {@link StepLoop.play()} can be called to resume executing the {@link StepLoop}. The termination stage will be executed again when the limit is reached again.
+     * Not to be confused with {@link StepLoop.get_state()}, which returns the lifecycle state of the loop.
      *
-     * @param {number} [steps] - the target lifespan (in number of steps); if `undefined` the lifespan becomes unlimited; default value is `undefined` if not provided
-     * @returns {number | undefined} the new lifespan
+     * @returns {TState | undefined} the user state; `undefined` if none was supplied
      * @example
      * ```ts
-     * class App extends StepLoop {}
-     * let app: App = new App();
+     * let app = new StepLoop<unknown, { score: number }>(60, undefined, false, { state: { score: 0 } });
      * app.start()
      *
-     * console.log(app.set_lifespan(100)) // Output -> `100`
+     * console.log(app.get_user_state()) // Output -> `{ score: 0 }`
      * ```
      * @instance
      */
-    public set_lifespan(steps?: number ): number | undefined {
-        if (!this._initialized) return undefined;
+    public get_user_state(): TState | undefined {
+        return this._userState;
+    }
 
-        if (typeof steps != "number") {
-            this._lifespan = undefined;
-        } else {
-            this._lifespan = steps;
+    /**
+     * Replace the user state of the {@link StepLoop} (see {@link StepLoop.get_user_state()}). To replace the state for a step that is already executing, call this before the step starts, e.g. from {@link StepLoop.on_input()}.
+     *
+     * @param {TState} state - the new user state
+     * @returns {TState} the new user state
+     * @example
+     * ```ts
+     * let app = new StepLoop<unknown, { score: number }>();
+     * app.set_user_state({ score: 10 })
+     * ```
+     * @instance
+     */
+    public set_user_state(state: TState): TState {
+        this._userState = state;
+        return this._userState;
+    }
 
-            if(this._kill && (this._lifespan > this._step_num)){
-                this._kill = false
-            }
-        }
-        return this._lifespan;
+    /**
+     * Returns the copy of the user state that was kept at the end of the previous step, the same value as {@link StepContext.previous_state}, e.g. to diff it with the current state or to interpolate between them in {@link StepLoop.render()}. Requires {@link StepLoopOptions.keep_previous_state} (see {@link StepLoop.set_keep_previous_state()}).
+     *
+     * @returns {TState | undefined} the previous user state; `undefined` if it is not kept or no step has executed yet
+     * @example
+     * ```ts
+     * class App extends StepLoop<unknown, { x: number }> {
+     *     public override render(alpha: number): void {
+     *         const previous = this.get_previous_user_state() ?? this.get_user_state()!;
+     *         draw(previous.x + (this.get_user_state()!.x - previous.x) * alpha);
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public get_previous_user_state(): TState | undefined {
+        return this._previousUserState;
     }
 
     /**
-     * Extend (or reduce) the lifespan of the {@link StepLoop}. Adds the specified number of steps to the current lifespan.
+     * Set whether the {@link StepLoop} keeps a copy of the user state as it was at the end of the previous step (see {@link StepLoop.get_previous_user_state()}). The copy is made with {@link StepLoop.copy_state()} at the beginning of each step, before inputs are applied.
      *
-     * If {@link StepLoop.extend_lifespan()} is called after the lifespan limit is reached, {@link StepLoop.play()} can be called to resume executing the {@link StepLoop}. The termination stage will be executed again when the limit is reached again.
+     * @param {boolean} keep - `true` to keep the previous state, `false` to stop keeping it
+     * @returns {boolean} the new value
+     * @example
+     * ```ts
+     * class App extends StepLoop<unknown, { x: number }> {}
+     * let app: App = new App();
      *
-     * @param {number} steps - the number of steps to add to the lifespan
-     * @returns {number | undefined} the new lifespan; returns undefined if the loop is uninitialized
+     * app.set_keep_previous_state(true)
+     * ```
+     * @instance
+     */
+    public set_keep_previous_state(keep: boolean): boolean {
+        this._keepPreviousState = keep;
+        if (!keep) this._previousUserState = undefined;
+        return this._keepPreviousState;
+    }
+
+    /**
+     * Returns the current step number (the number of times the loop has run).
+     *
+     * @returns {number} the current step number
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      * app.start()
      *
-     * console.log(app.extend_lifespan(100)) // Output -> `100`
+     * console.log(app.get_step()) // Output -> `1`
      * ```
      * @instance
      */
-    public extend_lifespan(steps: number ): number | undefined {
-        if (!this._initialized) return undefined;
+    public get_step(): number {
+        return this._step_num;
+    }
 
-        this._lifespan = (this._lifespan || 0) + steps;
+    /**
+     * Returns the current steps-per-second (sps).
+     *
+     * @returns {number} the current steps-per-second (sps)
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.get_sps()) // Output -> `60`
+     * ```
+     * @instance
+     */
+    public get_sps(): number {
+        return this._sps;
+    }
 
-        if(this._kill && (this._lifespan > this._step_num)){
-            this._kill = false
+    /**
+     * Returns the real steps-per-second (sps) based on the time between the last two steps. This value may not be accurate until after the first few steps have completed.
+     *
+     * @returns {number} the real steps-per-second (sps)
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.get_real_sps())
+     * ```
+     * @instance
+     */
+    public get_real_sps(): number {
+        if (this._lastStepDuration === 0) {
+            return 0;
         }
+        return 1000 / this._lastStepDuration;
+    }
 
-        return this._lifespan;
+    /**
+     * Returns the number of {@link StepLoop.background()} tasks that are still running.
+     *
+     * @returns {number} the number of running background tasks
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.get_background_tasks())
+     * ```
+     * @instance
+     */
+    public get_background_tasks(): number {
+        return this._backgroundTasks.size;
     }
 
     /**
-     * Pause the execution of the {@link StepLoop} after the current step resolves. Steps will not advance and the current step ({@link StepLoop.get_step()}) will not increase while the {@link StepLoop} is paused. Use {@link StepLoop.play()} to resume execution and continue the loop.
+     * Returns timing statistics over the most recent steps, for monitoring the loop without the noise of {@link StepLoop.get_real_sps()}. The number of steps in the window is set with {@link StepLoopOptions.stats_window}.
      *
-     * @returns {void} `void`
+     * Frame times are measured in real time on the loop's {@link Clock}, between the times steps actually executed, so they show late steps even in fixed-step mode, where the delta time is always one interval. Missed steps that run back to back in one tick count as frames of `0` milliseconds; time spent paused is not counted.
+     *
+     * @returns {StepLoopStats} the loop's timing statistics
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      * app.start()
      *
-     * app.pause()
+     * let stats: StepLoopStats = app.get_stats();
+     * console.log(`${stats.mean_sps} sps, p99 ${stats.frame_time_p99}ms, ${stats.overruns} overruns`)
      * ```
      * @instance
      */
-    public pause(): void {
-        if (!this._initialized || !this._running || this._kill) return;
+    public get_stats(): StepLoopStats {
+        const frames = [...this._frameTimes].sort((a, b) => a - b);
+        const mean_frame = mean(frames);
+        const variance = mean(frames.map(frame => (frame - mean_frame) ** 2));
+        // Steps run back to back in one tick have no time between them
+        const shortest = frames.find(frame => frame > 0);
 
-        this._running = false;
-        this._paused = true;
-        this._cancel_next_step();
-        this.on_pause()
+        return {
+            samples: this._hookTimes.length,
+            mean_sps: mean_frame > 0 ? 1000 / mean_frame : 0,
+            min_sps: frames.length > 0 ? 1000 / frames[frames.length - 1]! : 0,
+            max_sps: shortest !== undefined ? 1000 / shortest : 0,
+            frame_time_p50: percentile(frames, 50),
+            frame_time_p95: percentile(frames, 95),
+            frame_time_p99: percentile(frames, 99),
+            jitter: Math.sqrt(variance),
+            mean_hook_time: mean(this._hookTimes),
+            max_hook_time: this._hookTimes.length > 0 ? Math.max(...this._hookTimes) : 0,
+            overruns: this._overruns,
+        };
     }
 
     /**
-     * Resume execution of the {@link StepLoop} after calling {@link StepLoop.pause()} to pause it. Will resume execution on the next step in the {@link StepLoop} lifespan. Use {@link StepLoop.pause()} to pause execution and stop the loop.
+     * Returns the loop time that has passed since the first step, in milliseconds. Loop time does not advance while the {@link StepLoop} is paused.
      *
-     * @returns {void} `void`
+     * @returns {number} the elapsed loop time
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      * app.start()
      *
-     * app.pause()
-     * app.play()
+     * console.log(app.get_elapsed()) // Output -> `0`
      * ```
      * @instance
      */
-    public play(): void {
-        if (!this._initialized || this._running || this._kill) return;
+    public get_elapsed(): number {
+        return this._elapsed;
+    }
 
-        this._running = true;
-        this._paused = false;
-        this._startTime = performance.now() - (this._step_num * this._interval);
-        this.on_play();
-        this._run(performance.now());
+    /**
+     * Returns the current lifespan of the {@link StepLoop} (in steps).
+     *
+     * @returns {number | undefined} the current loop lifespan; returns `undefined` if the lifespan is unlimited
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(500);
+     * app.start()
+     *
+     * console.log(app.get_lifespan()) // Output -> `500`
+     * ```
+     * @instance
+     */
+    public get_lifespan(): number | undefined {
+        return this._lifespan;
     }
 
     /**
-     * Begin execution of the {@link StepLoop} lifecycle. Calls {@link StepLoop.initial()} to execute the initialization stage, then proceeds to the looping stage. The termination stage will not execute until {@link StepLoop.finish()} is called.
+     * Returns the {@link Clock} the {@link StepLoop} uses to read the time and schedule steps.
      *
-     * If {@link StepLoop.start()} is called after the termination stage has ended, the loop will restart at the beginning of the initialization stage.
+     * @returns {Clock} the loop's clock
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let clock: ManualClock = new ManualClock();
+     * let app: App = new App(60, undefined, false, { clock: clock });
      *
-     * @returns {void} `void`
+     * console.log(app.get_clock() === clock) // Output -> `true`
+     * ```
+     * @instance
+     */
+    public get_clock(): Clock {
+        return this._clock;
+    }
+
+    /**
+     * Set the {@link Clock} the {@link StepLoop} uses to read the time and schedule steps. The clock can only be changed while the loop is not running.
+     *
+     * @param {Clock} clock - the new clock
+     * @returns {Clock} the loop's clock after the change
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      *
-     * app.start()
+     * app.set_clock(new ManualClock())
      * ```
      * @instance
      */
-    public start(): void{
-        this._running = true;
-        this._startTime = performance.now();
-        this._main();
+    public set_clock(clock: Clock): Clock {
+        if (this._state === 'running') return this._clock;
+
+        this._cancel_next_step();
+        this._disarm_deadline();
+        this._clock = clock;
+        if (this._state === 'paused') this._watch_visibility();
+        this._arm_deadline();
+        return this._clock;
     }
 
     /**
-     * Ends the {@link StepLoop}. Executes the termination stage of the {@link StepLoop} lifecycle. Calls {@link StepLoop.final()} and then kills the loop.
+     * Returns the most recent errors thrown in the {@link StepLoop}, oldest first. The number of records kept is set with {@link StepLoopOptions.max_error_records}.
      *
-     * @returns {void} `void`
+     * @returns {StepLoopErrorRecord[]} the recorded errors
      * @example
      * ```ts
      * class App extends StepLoop {}
      * let app: App = new App();
      * app.start()
      *
-     * app.finish()
+     * for (const record of app.get_errors()) {
+     *     console.log(`${record.stage} failed on step ${record.step}`);
+     * }
      * ```
      * @instance
      */
-    public finish(): void {
-        if (!this._initialized || this._kill) return;
-
-        this._running = false;
-        this._paused = false;
-        this._kill = true;
-        this._cancel_next_step();
-        this._term()
+    public get_errors(): StepLoopErrorRecord[] {
+        return [...this._errors];
     }
 
+    /**
+     * Clears the errors recorded by the {@link StepLoop}, see {@link StepLoop.get_errors()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public clear_errors(): void {
+        this._errors = [];
+    }
 
+    /**
+     * Sets the current steps-per-second (sps). Alters the speed at which the {@link StepLoop} runs: higher values will result in more steps in a faster step-speed and lower values will result in a lower step-speed. Default speed is 60 steps-per-second.
+     *
+     * @param {number} sps - the target steps-per-second; default value is `60`
+     * @returns {number} the new steps-per-second
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.set_sps(120)) // Output -> `120`
+     * ```
+     * @instance
+     */
+    public set_sps(sps: number): number {
+        //if (this._initialized) return this._sps;;
 
-    private _RAFAvailable: boolean = typeof requestAnimationFrame !== 'undefined';
-    private _RAFActive: boolean;
-    private _RAFId: number | undefined;
+        const previous = this._sps;
+        const issued = this._step_num + this._pendingSteps;
+        // Keep the next deadline where it is, and space the following ones at the new rate
+        this._startTime += issued * (this._interval - (1000 / sps));
 
-    private _request_next_step(timestamp: DOMHighResTimeStamp | number): void {
-        if (!this._running) return;
+        this._sps = sps;
+        this._interval = 1000/this._sps
+        this._adaptiveOverruns = [];
+        this._headroomSteps = 0;
+        this._record_rate();
 
-        if (this._RAFActive && this._RAFAvailable) {
-            this._RAFId = requestAnimationFrame((nextTimestamp) => {
-                this._run(nextTimestamp);
-            });
-            return;
+        if (previous !== this._sps && this._invoke('sps_change', () => this.on_sps_change(this._sps, previous))) {
+            this._emit('sps_change', this._sps, previous);
         }
+        return this._sps;
+    }
+
+    /**
+     * Set the rate loop time passes at relative to real time, for slow motion (below `1`) or fast forward (above `1`). The time scale does not change the steps-per-second; it scales the delta time given to the hooks ({@link StepContext.delta_ms}) and the loop time ({@link StepLoop.get_elapsed()}), so timers set with {@link StepLoop.after_time()} scale with it too. A time scale of `0` freezes loop time while steps keep executing.
+     *
+     * @param {number} scale - the new time scale; negative values are treated as `0`
+     * @returns {number} the new time scale
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.set_time_scale(0.25)) // Output -> `0.25`
+     * ```
+     * @instance
+     */
+    public set_time_scale(scale: number): number {
+        this._timeScale = Math.max(0, scale);
+        this._record_rate();
+        return this._timeScale;
+    }
+
+    /**
+     * Returns the rate loop time passes at relative to real time, see {@link StepLoop.set_time_scale()}.
+     *
+     * @returns {number} the current time scale
+     * @instance
+     */
+    public get_time_scale(): number {
+        return this._timeScale;
+    }
+
+    /**
+     * Enable or disable adaptive step rate mode. When enabled, the {@link StepLoop} lowers its steps-per-second (down to `min_sps`) when overruns are sustained (see {@link StepLoop.on_overrun()}), and raises it again (up to `max_sps`) when steps have had headroom for a while. Each change calls {@link StepLoop.on_sps_change()}, so the app can degrade quality on purpose instead of falling further and further behind.
+     *
+     * @param {AdaptiveSpsOptions} [options] - the bounds and thresholds of adaptive mode; if `undefined`, adaptive mode is disabled
+     * @returns {boolean} `true` if adaptive mode is enabled
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(120);
+     *
+     * app.set_adaptive_sps({ min_sps: 30 })
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_adaptive_sps(options?: AdaptiveSpsOptions): boolean {
+        this._adaptive = options && {
+            min_sps: options.min_sps,
+            max_sps: options.max_sps ?? this._sps,
+            window: options.window ?? 30,
+            overrun_threshold: options.overrun_threshold ?? 3,
+            decrease_factor: options.decrease_factor ?? 0.75,
+            increase_factor: options.increase_factor ?? 1.25,
+            headroom: options.headroom ?? 0.5,
+            recovery_steps: options.recovery_steps ?? 60,
+        };
+        this._adaptiveOverruns = [];
+        this._headroomSteps = 0;
+        return this._adaptive !== undefined;
+    }
+
+    /**
+     * Enable or disable the profiler. When enabled, the {@link StepLoop} records a {@link ProfileSpan} for the {@link StepLoop.before()}, {@link StepLoop.step()} and {@link StepLoop.after()} stages of every step (including their systems and listeners), for {@link StepLoop.background()} until its promise settles, and for each user span measured with {@link StepLoop.span()}.
+     *
+     * Spans are kept in a ring buffer that holds the most recent `capacity` spans, so the profiler can stay on in long-running processes. Enabling the profiler clears the previous capture; disabling it stops recording but keeps the capture, so it can still be read with {@link StepLoop.get_profile()} or {@link StepLoop.export_trace()}.
+     *
+     * @param {ProfilerOptions} [options] - the options of the profiler; if `undefined`, the profiler is disabled
+     * @returns {boolean} `true` if the profiler is enabled
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.set_profiler({ capacity: 5000 })
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_profiler(options?: ProfilerOptions): boolean {
+        this._profiling = options !== undefined;
+        if (options) {
+            this._profile = new RingBuffer(options.capacity ?? 10000);
+        }
+        return this._profiling;
+    }
+
+    /**
+     * Measure a user-defined span of code with the profiler (see {@link StepLoop.set_profiler()}), e.g. a phase of {@link StepLoop.step()}. Calls `fn` and returns its result; if `fn` returns a promise, the span ends when the promise settles. When the profiler is disabled, `fn` is simply called.
+     *
+     * The span is labelled with the step whose stage is executing when {@link StepLoop.span()} is called, even while asynchronous steps overlap. After an `await` in an asynchronous hook, or outside of a step, it is labelled with {@link StepLoop.get_step()}: the oldest step that is still pending, or the next step.
+     *
+     * @param {string} name - the name of the span
+     * @param {Function} fn - the code to measure
+     * @returns {T} the value returned by `fn`
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     public override step(): void {
+     *         this.span("physics", () => this.world.update());
+     *         this.span("ai", () => this.agents.think());
+     *     }
+     * }
+     * ```
+     * @instance
+     */
+    public span<T>(name: string, fn: () => T): T {
+        if (!this._profiling) return fn();
+
+        const step = this._executingStep ?? this._step_num;
+        const start = this._clock.now();
+        let result: T;
+        try {
+            result = fn();
+        } catch (error) {
+            this._record_span(name, 'span', step, start);
+            throw error;
+        }
+
+        if (is_thenable(result)) {
+            const end = () => this._record_span(name, 'span', step, start);
+            result.then(end, end);
+        } else {
+            this._record_span(name, 'span', step, start);
+        }
+        return result;
+    }
+
+    /**
+     * Returns the spans recorded by the profiler, oldest first. See {@link StepLoop.set_profiler()}.
+     *
+     * @returns {ProfileSpan[]} the recorded spans
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop(60, 600, false, { profiler: {} });
+     * await app.start()
+     *
+     * let steps = app.get_profile().filter(span => span.name === "step");
+     * ```
+     * @instance
+     */
+    public get_profile(): ProfileSpan[] {
+        return this._profile.to_array();
+    }
+
+    /**
+     * Clears the spans recorded by the profiler. See {@link StepLoop.set_profiler()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public clear_profile(): void {
+        this._profile.clear();
+    }
+
+    /**
+     * Export the spans recorded by the profiler as Chrome trace-event JSON, to be saved with {@link JSON.stringify()} and opened in `chrome://tracing` or Perfetto. Stages and user spans are shown on a `steps` track, and {@link StepLoop.background()} on a `background` track, since it can outlive the step that started it.
+     *
+     * @returns {ChromeTrace} the capture in the Chrome trace-event format
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop(60, 600, false, { profiler: {} });
+     * await app.start()
+     *
+     * fs.writeFileSync("trace.json", JSON.stringify(app.export_trace()));
+     * ```
+     * @instance
+     */
+    public export_trace(): ChromeTrace {
+        const events: TraceEvent[] = [
+            { name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 1, args: { name: 'steps' } },
+            { name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 2, args: { name: 'background' } },
+        ];
+        for (const span of this._profile.to_array()) {
+            events.push({
+                name: span.name,
+                cat: span.category,
+                ph: 'X',
+                ts: span.start * 1000,
+                dur: span.duration * 1000,
+                pid: 1,
+                tid: span.category === 'background' ? 2 : 1,
+                args: { step: span.step },
+            });
+        }
+        return { traceEvents: events, displayTimeUnit: 'ms' };
+    }
+
+    /**
+     * Set whether or not to use {@link window.requestAnimationFrame()} for the {@link StepLoop}. When set to `true`, the loop will synchronize with the browser's rendering cycle (if the loop is running in a browser), which can result in smoother animations and better performance. When disabled, the loop will use a step-scheduler based on {@link setTimeout()}, which may be less efficient but more predictable.
+     *
+     * @param {boolean} status - `true` to use `requestAnimationFrame`, `false` to use the step scheduler.
+     * @returns {boolean} the new status of `requestAnimationFrame`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.set_use_RAF(true)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_use_RAF(status: boolean): boolean {
+        this._RAFActive = status;
+        return this._RAFActive;
+    }
+
+    /**
+     * Set whether or not to run the {@link StepLoop} in fixed-step mode. When set to `true`, steps are executed at exactly {@link StepLoop.get_sps()} steps-per-second regardless of how often the loop is woken up: each frame runs as many steps as are due (zero, one or several), then calls {@link StepLoop.render()} once. Combine with {@link StepLoop.set_use_RAF()} to update the simulation at a fixed rate while rendering at the display's rate.
+     *
+     * @param {boolean} status - `true` to use fixed-step mode, `false` to execute one step per frame
+     * @returns {boolean} the new status of fixed-step mode
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(30, undefined, true);
+     *
+     * app.set_fixed_step(true)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_fixed_step(status: boolean): boolean {
+        this._fixedStep = status;
+        this._accumulator = 0;
+        this._lastFrameTime = this._clock.now();
+        return this._fixedStep;
+    }
+
+    /**
+     * Set what the {@link StepLoop} does when a hook or listener throws an error. See {@link ErrorPolicy} for the available policies.
+     *
+     * @param {ErrorPolicy} policy - the new error policy
+     * @param {number} [max_consecutive_errors] - the number of errors in a row that finish the loop under the `"finish"` policy; unchanged if not provided
+     * @returns {ErrorPolicy} the new error policy
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.set_error_policy("finish", 5)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_error_policy(policy: ErrorPolicy, max_consecutive_errors?: number): ErrorPolicy {
+        this._errorPolicy = policy;
+        if (typeof max_consecutive_errors == "number") {
+            this._maxConsecutiveErrors = max_consecutive_errors;
+        }
+        this._consecutiveErrors = 0;
+        return this._errorPolicy;
+    }
+
+    /**
+     * Set what the {@link StepLoop} does when an asynchronous step (one where {@link StepLoop.before()}, {@link StepLoop.step()} or {@link StepLoop.after()} returns a promise) is still pending at the deadline of the next step. See {@link OverrunPolicy} for the available policies.
+     *
+     * With the `"overlap"` policy, several steps may be pending at once: use {@link StepContext.step} to tell them apart, since {@link StepLoop.get_step()} only counts the steps that have resolved.
+     *
+     * @param {OverrunPolicy} policy - the new overrun policy
+     * @param {number} [max_concurrent_steps] - the number of steps that can be pending at once under the `"overlap"` policy; unchanged if not provided
+     * @returns {OverrunPolicy} the new overrun policy
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     public override async step(): Promise<void> {
+     *         await poll_queue();
+     *     }
+     * }
+     * let app: App = new App(10);
+     *
+     * app.set_overrun_policy("skip")
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_overrun_policy(policy: OverrunPolicy, max_concurrent_steps?: number): OverrunPolicy {
+        this._overrunPolicy = policy;
+        if (typeof max_concurrent_steps == "number") {
+            this._maxConcurrentSteps = max_concurrent_steps;
+        }
+        return this._overrunPolicy;
+    }
+
+    /**
+     * Set what the {@link StepLoop} does when it falls behind schedule and has missed steps, e.g. after the event loop stalled or after display frames stopped while the page was hidden. See {@link CatchUpPolicy} for the available policies.
+     *
+     * The number of steps the loop was behind is reported to each step in {@link StepContext.missed_steps}.
+     *
+     * @param {CatchUpPolicy} policy - the new catch-up policy
+     * @param {number} [max_catch_up_steps] - the number of missed steps that can run in one tick under the `"batch"` policy; unchanged if not provided
+     * @returns {CatchUpPolicy} the new catch-up policy
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, undefined, true);
+     *
+     * app.set_catch_up_policy("batch", 10)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_catch_up_policy(policy: CatchUpPolicy, max_catch_up_steps?: number): CatchUpPolicy {
+        this._catchUpPolicy = policy;
+        if (typeof max_catch_up_steps == "number") {
+            this._maxCatchUpSteps = Math.max(0, max_catch_up_steps);
+        }
+        return this._catchUpPolicy;
+    }
+
+    /**
+     * Set whether the {@link StepLoop} pauses while the page is hidden. When enabled, the loop is paused with {@link StepLoop.pause()} when its {@link Clock} reports that the page is hidden, and resumed with {@link StepLoop.play()} when the page is visible again, so no backlog of missed steps builds up. A loop that was paused by hand is not resumed.
+     *
+     * Requires a {@link Clock} that implements {@link Clock.watch_visibility()}, such as {@link SystemClock} in a browser.
+     *
+     * @param {boolean} pause - `true` to pause the loop while the page is hidden
+     * @returns {boolean} the new value
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, undefined, true);
+     *
+     * app.set_pause_when_hidden(true)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_pause_when_hidden(pause: boolean): boolean {
+        this._pauseWhenHidden = pause;
+        if (this._state === 'running' || this._state === 'paused') this._watch_visibility();
+        return this._pauseWhenHidden;
+    }
+
+    /**
+     * Set the lifespan of the {@link StepLoop} to the specified number of steps, or removes the limit on the {@link StepLoop}'s lifespan (will run until {@link StepLoop.finish()} is called). Can be called in any state, including before the loop is started.
+     *
+     * If {@link StepLoop.set_lifespan()} is called after the lifespan limit is reached, {@link StepLoop.play()} can be called to resume executing the {@link StepLoop}. The termination stage will be executed again when the limit is reached again.
+     *
+     * @param {number} [steps] - the target lifespan (in number of steps); if `undefined` the lifespan becomes unlimited; default value is `undefined` if not provided
+     * @returns {number | undefined} the new lifespan
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.set_lifespan(100)) // Output -> `100`
+     * ```
+     * @instance
+     */
+    public set_lifespan(steps?: number ): number | undefined {
+        if (typeof steps != "number") {
+            this._lifespan = undefined;
+        } else {
+            this._lifespan = steps;
+
+            if(this._state === 'finished' && (this._lifespan > this._step_num)){
+                this._revive();
+            }
+        }
+        return this._lifespan;
+    }
+
+    /**
+     * Extend (or reduce) the lifespan of the {@link StepLoop}. Adds the specified number of steps to the current lifespan. Can be called in any state, including before the loop is started.
+     *
+     * If {@link StepLoop.extend_lifespan()} is called after the lifespan limit is reached, {@link StepLoop.play()} can be called to resume executing the {@link StepLoop}. The termination stage will be executed again when the limit is reached again.
+     *
+     * @param {number} steps - the number of steps to add to the lifespan
+     * @returns {number | undefined} the new lifespan
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * console.log(app.extend_lifespan(100)) // Output -> `100`
+     * ```
+     * @instance
+     */
+    public extend_lifespan(steps: number ): number | undefined {
+        this._lifespan = (this._lifespan || 0) + steps;
+
+        if(this._state === 'finished' && (this._lifespan > this._step_num)){
+            this._revive();
+        }
+
+        return this._lifespan;
+    }
+
+    /**
+     * Set the lifespan of the {@link StepLoop} as a duration of loop time, in milliseconds. The loop ends at the first step whose elapsed loop time ({@link StepContext.elapsed_ms}) would reach the duration, so the duration holds when {@link StepLoop.set_sps()} changes the rate and follows the time scale (see {@link StepLoop.set_time_scale()}).
+     *
+     * The duration applies in addition to the lifespan in steps: the loop ends at whichever limit is reached first. Setting to `undefined` removes the duration.
+     *
+     * Like {@link StepLoop.set_lifespan()}, if the loop was ended by its duration, setting a longer duration (or none) moves it back to the `"paused"` state, so {@link StepLoop.play()} can resume it.
+     *
+     * @param {number | undefined} duration_ms - the duration of the loop, in milliseconds of loop time; default value is `undefined`
+     * @returns {number | undefined} the new duration
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.set_duration(30000) // run for 30 seconds
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_duration(duration_ms?: number): number | undefined {
+        this._duration = duration_ms;
+
+        if (this._state === 'finished' && this._endReason === 'duration' && (duration_ms === undefined || duration_ms > this._elapsed)) {
+            this._revive();
+        }
+        return this._duration;
+    }
+
+    /**
+     * Returns the lifespan of the {@link StepLoop} as a duration of loop time, in milliseconds. See {@link StepLoop.set_duration()}.
+     *
+     * @returns {number | undefined} the duration of the loop; `undefined` if it has none
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, undefined, false, { duration: 30000 });
+     *
+     * console.log(app.get_duration()) // Output -> `30000`
+     * ```
+     * @instance
+     */
+    public get_duration(): number | undefined {
+        return this._duration;
+    }
+
+    /**
+     * Set a deadline for the {@link StepLoop}: a time on its {@link Clock} (see {@link Clock.now()}) at which it ends. The loop ends at the first step that would execute at or after the deadline. Unlike {@link StepLoop.set_duration()}, the deadline is wall-clock time, so it also passes while the loop is paused and does not follow the time scale. A deadline that passes while the loop is paused ends it right away.
+     *
+     * Setting to `undefined` removes the deadline. Like {@link StepLoop.set_lifespan()}, if the loop was ended by its deadline, setting a later deadline (or none) moves it back to the `"paused"` state, so {@link StepLoop.play()} can resume it.
+     *
+     * @param {number | undefined} time - the time the loop ends at; default value is `undefined`
+     * @returns {number | undefined} the new deadline
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.set_deadline(performance.now() + 5000)
+     * app.start()
+     * ```
+     * @instance
+     */
+    public set_deadline(time?: number): number | undefined {
+        this._deadline = time;
+
+        if (this._state === 'finished' && this._endReason === 'deadline' && (time === undefined || time > this._clock.now())) {
+            this._revive();
+        } else {
+            this._arm_deadline();
+        }
+        return this._deadline;
+    }
+
+    /**
+     * Returns the deadline of the {@link StepLoop}. See {@link StepLoop.set_deadline()}.
+     *
+     * @returns {number | undefined} the deadline of the loop; `undefined` if it has none
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, undefined, false, { deadline: 5000 });
+     *
+     * console.log(app.get_deadline()) // Output -> `5000`
+     * ```
+     * @instance
+     */
+    public get_deadline(): number | undefined {
+        return this._deadline;
+    }
+
+    /**
+     * Add a stop condition to the {@link StepLoop}. The condition is checked before every step, along with the lifespan, duration and deadline of the loop, and the loop ends as soon as it returns `true`. {@link StepLoop.final()} is then called with the reason `"condition"`.
+     *
+     * @param {Function} condition - a function that returns `true` when the loop should end
+     * @returns {Function} a function that removes the condition when called
+     * @example
+     * ```ts
+     * class App extends StepLoop {
+     *     lives: number = 3;
+     * }
+     * let app: App = new App();
+     * app.stop_when(() => app.lives <= 0);
+     * app.start()
+     * ```
+     * @instance
+     */
+    public stop_when(condition: (loop: StepLoop<TInput, TState>) => boolean): () => void {
+        const entry = () => condition(this);
+        this._stopConditions = [...this._stopConditions, entry];
+        return () => {
+            this._stopConditions = this._stopConditions.filter(other => other !== entry);
+        };
+    }
+
+    /**
+     * Pause the execution of the {@link StepLoop} after the current step resolves. Steps will not advance and the current step ({@link StepLoop.get_step()}) will not increase while the {@link StepLoop} is paused. Use {@link StepLoop.play()} to resume execution and continue the loop.
+     *
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.pause()
+     * ```
+     * @instance
+     */
+    public pause(): void {
+        if (!this._check_state('pause', ['running'])) return;
+
+        this._set_state('paused');
+        this._pausedTime = this._clock.now();
+        this._cancel_next_step();
+        this._backgroundController.abort();
+        if (this._invoke('pause', () => this.on_pause())) {
+            this._emit('pause');
+        }
+    }
+
+    /**
+     * Resume execution of the {@link StepLoop} after calling {@link StepLoop.pause()} to pause it. Will resume execution on the next step in the {@link StepLoop} lifespan. Use {@link StepLoop.pause()} to pause execution and stop the loop.
+     *
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.pause()
+     * app.play()
+     * ```
+     * @instance
+     */
+    public play(): void {
+        if (!this._check_state('play', ['paused'])) return;
+
+        this._set_state('running');
+        this._startTime = this._clock.now() - ((this._step_num + this._pendingSteps) * this._interval);
+        this._lastStepTime += this._clock.now() - this._pausedTime;
+        this._measureFrame = false;
+        // Aborts the background work of steps run with step_once() while paused
+        this._backgroundController.abort();
+        this._backgroundController = new AbortController();
+        this._reset_accumulator();
+        if (this._invoke('play', () => this.on_play())) {
+            this._emit('play');
+        }
+        this._run(this._clock.now());
+    }
+
+    /**
+     * Send an external input to the {@link StepLoop}. Inputs are queued and applied at the beginning of the next step with {@link StepLoop.on_input()}, so they can be sent at any time, from anywhere. Same as {@link StepLoop.enqueue()} without a step.
+     *
+     * @param {TInput} input - the input to send; must be serializable with {@link JSON.stringify()} to be saved in a recording
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * window.addEventListener("keydown", (event) => app.send_input({ key: event.key }));
+     * ```
+     * @instance
+     */
+    public send_input(input: TInput): void {
+        this.enqueue(input);
+    }
+
+    /**
+     * Add an input (a command) to the input queue of the {@link StepLoop}, to be applied with {@link StepLoop.on_input()} at the beginning of a step. Producers such as UI events and network messages can enqueue inputs at any time, from anywhere, and the loop applies them at step boundaries, in a defined order (see {@link StepLoop.on_input()}), so state only changes inside steps.
+     *
+     * Without `at_step`, the input is applied on the next step. With `at_step`, it is scheduled for that step; if that step has already executed, it is applied on the next step. Either way, the step the input is applied on is passed to {@link StepLoop.on_input()} as {@link StepContext.step} and stamped on it in recordings (see {@link StepLoop.start_recording()}).
+     *
+     * @param {TInput} input - the input to enqueue; must be serializable with {@link JSON.stringify()} to be saved in a recording
+     * @param {number} [at_step] - the step to apply the input on; the next step if not provided
+     * @returns {Function} a function that removes the input from the queue, if it has not been applied yet, when called
+     * @example
+     * ```ts
+     * let app: App = new App();
+     * app.start()
+     *
+     * socket.on("message", (command) => app.enqueue(command, command.step));
+     * ```
+     * @instance
+     */
+    public enqueue(input: TInput, at_step?: number): () => void {
+        const queued: QueuedInput<TInput> = { input: input, due: at_step, order: this._nextInputOrder++ };
+        this._inputs = [...this._inputs, queued];
+        return () => {
+            this._inputs = this._inputs.filter(other => other !== queued);
+        };
+    }
+
+    /**
+     * Start recording every input applied to the {@link StepLoop}, tagged with the step it was applied on. Start recording before calling {@link StepLoop.start()} to be able to replay the loop from its first step.
+     *
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.start_recording()
+     * app.start()
+     * ```
+     * @instance
+     */
+    public start_recording(): void {
+        this._recording = { sps: this._sps, time_scale: this._timeScale, first_step: undefined, inputs: [], rates: [], deltas: [] };
+    }
+
+    /**
+     * Stop recording inputs, and return the recording. See {@link StepLoop.start_recording()}.
+     *
+     * @returns {InputRecording | undefined} the recording; `undefined` if the loop was not recording
+     * @example
+     * ```ts
+     * let recording: InputRecording = app.stop_recording();
+     * localStorage.setItem("recording", JSON.stringify(recording));
+     * ```
+     * @instance
+     */
+    public stop_recording(): InputRecording<TInput> | undefined {
+        if (!this._recording) return undefined;
+
+        const recorded = this._recording;
+        const recording: InputRecording<TInput> = {
+            version: 1,
+            sps: recorded.sps,
+            time_scale: recorded.time_scale,
+            steps: this._step_num,
+            first_step: recorded.first_step ?? this._step_num,
+            inputs: recorded.inputs,
+            rates: recorded.rates,
+            deltas: recorded.deltas,
+        };
+        this._recording = undefined;
+        return recording;
+    }
+
+    /**
+     * Replay a recording made with {@link StepLoop.start_recording()} on a fresh {@link StepLoop}. Starts the loop, applies each recorded input on the step it was recorded on, and finishes the loop after the recorded number of steps, so the same sequence of steps runs again.
+     *
+     * The loop runs at the recorded steps-per-second multiplied by `speed`, with the recorded time scale (see {@link StepLoop.set_time_scale()}). Changes to either that were made while recording are made again before the same steps, and each recorded step is given the delta time it had when recording, so loop time passes exactly as it did whatever the speed. With a `speed` of `Infinity`, every step executes immediately, without timers; this requires {@link StepLoop.before()}, {@link StepLoop.step()} and {@link StepLoop.after()} to be synchronous. A recording of `0` steps finishes right after {@link StepLoop.initial()}.
+     *
+     * The steps-per-second, time scale and lifespan the loop had before the replay are restored when the replay ends, before {@link StepLoop.final()} is called.
+     *
+     * @param {InputRecording} recording - the recording to replay
+     * @param {number} speed - how fast to replay the recording; default value is `1`
+     * @returns {Promise<void>} a promise that settles when the replay ends, like the one returned by {@link StepLoop.start()}
+     * @example
+     * ```ts
+     * let recording: InputRecording = JSON.parse(localStorage.getItem("recording"));
+     * let app: App = new App();
+     *
+     * app.replay(recording, Infinity)
+     * ```
+     * @instance
+     */
+    public replay(recording: InputRecording<TInput>, speed: number = 1): Promise<void> {
+        if (!this._check_state('replay', ['idle', 'finished'])) return this._completion;
+
+        const replay: ReplayState<TInput> = {
+            inputs: new Map(),
+            rates: new Map(recording.rates.map(rate => [rate.step, rate])),
+            first_step: recording.first_step,
+            deltas: recording.deltas,
+            pace: speed === Infinity ? 1 : speed,
+        };
+        for (const recorded of recording.inputs) {
+            const inputs = replay.inputs.get(recorded.step) ?? [];
+            inputs.push(recorded.input);
+            replay.inputs.set(recorded.step, inputs);
+        }
+        this._replay = replay;
+        this._replaySettings = { sps: this._sps, time_scale: this._timeScale, lifespan: this._lifespan };
+        this._lifespan = recording.steps;
+        this.set_sps(recording.sps * replay.pace);
+        this.set_time_scale(recording.time_scale);
+
+        if (speed !== Infinity && recording.steps > 0) {
+            return this.start();
+        }
+
+        this._startTime = this._clock.now();
+        this._set_state('running');
+        this._init();
+
+        if (recording.steps === 0) {
+            // A lifespan of 0 is unlimited, so an empty recording has to end here
+            if (this._state === 'running') this._term('lifespan');
+            return this._completion;
+        }
+
+        let timestamp = this._startTime;
+        while (this._execute_step(timestamp, timestamp, this._step_num === 0 ? 0 : this._interval)) {
+            timestamp += this._interval;
+        }
+        return this._completion;
+    }
+
+    /**
+     * Returns a serializable snapshot of the progress of the {@link StepLoop}: its step, lifespan, duration, steps-per-second, elapsed loop time and time scale, plus the state returned by {@link StepLoop.save_state()}. Use {@link StepLoop.start_from()} to resume a loop from a snapshot, e.g. after a restart.
+     *
+     * @returns {StepLoopSnapshot} the snapshot
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, 100000);
+     * app.start()
+     *
+     * fs.writeFileSync("progress.json", JSON.stringify(app.snapshot()));
+     * ```
+     * @instance
+     */
+    public snapshot(): StepLoopSnapshot {
+        return {
+            version: 1,
+            step: this._step_num,
+            lifespan: this._lifespan,
+            duration: this._duration,
+            sps: this._sps,
+            elapsed_ms: this._elapsed,
+            time_scale: this._timeScale,
+            state: this.save_state(),
+        };
+    }
+
+    /**
+     * Begin execution of the {@link StepLoop} lifecycle from a snapshot returned by {@link StepLoop.snapshot()}. Like {@link StepLoop.start()}, calls {@link StepLoop.initial()} to execute the initialization stage, but the loop keeps the step, lifespan, duration, steps-per-second, elapsed loop time and time scale of the snapshot, and {@link StepLoop.load_state()} is called with its user state before the looping stage resumes at the next step.
+     *
+     * @param {StepLoopSnapshot} snapshot - the snapshot to resume from
+     * @returns {Promise<void>} a promise that settles when the loop ends, like the one returned by {@link StepLoop.start()}
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     *
+     * app.start_from(JSON.parse(fs.readFileSync("progress.json", "utf8")))
+     * ```
+     * @instance
+     */
+    public start_from(snapshot: StepLoopSnapshot): Promise<void> {
+        if (!this._check_state('start_from', ['idle', 'finished'])) return this._completion;
+
+        this.set_sps(snapshot.sps);
+        this._lifespan = snapshot.lifespan;
+        this._duration = snapshot.duration;
+        this._timeScale = snapshot.time_scale;
+        this._set_state('running');
+        this._startTime = this._clock.now() - (snapshot.step * this._interval);
+        this._main(snapshot);
+        return this._completion;
+    }
+
+    /**
+     * Execute exactly one step (a full {@link StepLoop.background()}, {@link StepLoop.before()}, {@link StepLoop.step()}, {@link StepLoop.after()} cycle) while the {@link StepLoop} is paused, for frame-by-frame debugging. The loop stays paused afterwards. The step is given a delta time of one interval (`1000 / sps` milliseconds, scaled by the time scale).
+     *
+     * If the step would go past the lifespan of the loop, the termination stage is executed instead.
+     *
+     * {@link StepLoop.background()} is given a signal of its own for the step, which is aborted once the background work of the step settles, or when the loop is resumed, reset or finished.
+     *
+     * @returns {boolean} `true` if a step was executed; `false` if the loop is not paused or the loop finished instead
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.pause()
+     * app.step_once()
+     * ```
+     * @instance
+     */
+    public step_once(): boolean {
+        if (!this._check_state('step_once', ['paused'])) return false;
+
+        const now = this._clock.now();
+        const controller = new AbortController();
+        const running = new Set(this._backgroundTasks);
+        this._backgroundController = controller;
+        // The time since the previous step was spent paused, so it is not a frame
+        this._measureFrame = false;
+        this._execute_step(now, now, this._interval);
+        this._pausedTime = now;
+
+        // The step gets a signal of its own, aborted once its background work settles, or by play(), reset() or finish()
+        const started = [...this._backgroundTasks].filter(task => !running.has(task));
+        Promise.allSettled(started).then(() => controller.abort());
+        return this._state !== 'finished';
+    }
+
+    /**
+     * Begin execution of the {@link StepLoop} lifecycle. Calls {@link StepLoop.initial()} to execute the initialization stage, then proceeds to the looping stage. The termination stage will not execute until {@link StepLoop.finish()} is called.
+     *
+     * If {@link StepLoop.start()} is called after the termination stage has ended, the loop will restart at the beginning of the initialization stage. Calling it while the loop is running or paused is ignored, or throws an error if {@link StepLoopOptions.strict} is set; use {@link StepLoop.restart()} to start over.
+     *
+     * Returns a promise that resolves when {@link StepLoop.final()} completes. If the loop is ended by an error under the `'finish'` error policy, the promise rejects with that error instead. The promise does not need to be handled: ignoring it is the same as calling {@link StepLoop.start()} without waiting.
+     *
+     * @returns {Promise<void>} a promise that settles when the loop ends
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, 600);
+     *
+     * await app.start()
+     * console.log("done")
+     * ```
+     * @instance
+     */
+    public start(): Promise<void> {
+        if (!this._check_state('start', ['idle', 'finished'])) return this._completion;
+
+        this._set_state('running');
+        this._startTime = this._clock.now();
+        this._main();
+        return this._completion;
+    }
+
+    /**
+     * Returns a promise that settles when the current run of the {@link StepLoop} ends: it resolves when {@link StepLoop.final()} completes, or rejects with the error that ended the loop under the `'finish'` error policy. This is the same promise returned by {@link StepLoop.start()}; before the loop is started it settles when the first run ends, and after the loop has ended it stays settled until the loop is started again.
+     *
+     * @returns {Promise<void>} a promise that settles when the loop ends
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App(60, 600);
+     * app.start()
+     *
+     * app.completion().then(() => console.log("done"))
+     * ```
+     * @instance
+     */
+    public completion(): Promise<void> {
+        return this._completion;
+    }
+
+    /**
+     * Iterate over the steps of the {@link StepLoop} with `for await`, receiving the {@link StepContext} of each step after {@link StepLoop.step()} has run. If the loop has not been started, or has already finished, iterating starts it; if it is running or paused, iteration picks up at the next step.
+     *
+     * Steps are queued if the loop body is slower than the loop, so no step is missed. Iteration ends when the loop finishes, and throws if it was ended by an error under the `'finish'` error policy. Breaking out of the iteration stops listening to the loop but does not finish it.
+     *
+     * @returns {AsyncGenerator<StepContext>} an async iterator over the steps of the loop
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop(60, 600);
+     *
+     * for await (const tick of app) {
+     *     console.log(`step: ${tick.step}`);
+     * }
+     * ```
+     * @instance
+     */
+    public async *[Symbol.asyncIterator](): AsyncGenerator<StepContext<TState>, void, undefined> {
+        const ticks: StepContext<TState>[] = [];
+        let ended = false;
+        let wake = () => {};
+        const unsubscribe = this.on('step', (context) => {
+            ticks.push(context);
+            wake();
+        });
+
+        try {
+            const completion = (this._state === 'idle' || this._state === 'finished') ? this.start() : this._completion;
+            const end = () => {
+                ended = true;
+                wake();
+            };
+            completion.then(end, end);
+
+            while (ticks.length > 0 || !ended) {
+                const tick = ticks.shift();
+                if (tick) {
+                    yield tick;
+                } else {
+                    await new Promise<void>(resolve => { wake = resolve; });
+                }
+            }
+            await completion;
+        } finally {
+            unsubscribe();
+        }
+    }
+
+    /**
+     * Ends the {@link StepLoop}. Executes the termination stage of the {@link StepLoop} lifecycle. Calls {@link StepLoop.final()} and then kills the loop.
+     *
+     * Asynchronous steps still pending are not waited for: the rest of their stages is dropped when they settle, and they do not count towards {@link StepLoop.get_step()}.
+     *
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.finish()
+     * ```
+     * @instance
+     */
+    public finish(): void {
+        if (!this._check_state('finish', ['running', 'paused'])) return;
+
+        this._term(this._fatalError ? 'error' : 'finish')
+    }
+
+    /**
+     * Return the {@link StepLoop} to the `"idle"` state so it can be started again from the beginning. If the loop is running or paused, it is finished first, so {@link StepLoop.final()} is called. Resets the current step and the elapsed loop time to `0`, and clears pending timers, queued inputs and error records. Asynchronous steps still pending from the previous run are dropped when they settle, and if {@link StepLoopOptions.await_background} delayed the termination stage, {@link StepLoop.final()} is called right away. Hooks, listeners, systems and settings such as the steps-per-second and lifespan are kept.
+     *
+     * Can be called in any state.
+     *
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.reset()
+     * console.log(app.get_state()) // Output -> `"idle"`
+     * console.log(app.get_step()) // Output -> `0`
+     * ```
+     * @instance
+     */
+    public reset(): void {
+        if (this._state === 'running' || this._state === 'paused') this._term('finish');
+        this._new_run();
+
+        this._step_num = 0;
+        this._elapsed = 0;
+        this._timers = [];
+        this._inputs = [];
+        this._errors = [];
+        this._consecutiveErrors = 0;
+        this._fatalError = undefined;
+        this._set_state('idle');
+    }
+
+    /**
+     * Reset the {@link StepLoop} with {@link StepLoop.reset()}, then start it again with {@link StepLoop.start()}. Can be called in any state.
+     *
+     * @returns {Promise<void>} a promise that settles when the new run ends, like the one returned by {@link StepLoop.start()}
+     * @example
+     * ```ts
+     * class App extends StepLoop {}
+     * let app: App = new App();
+     * app.start()
+     *
+     * app.restart()
+     * ```
+     * @instance
+     */
+    public restart(): Promise<void> {
+        this.reset();
+        return this.start();
+    }
+
+    /**
+     * Schedule a callback to run once, at the beginning of the given step (before {@link StepLoop.before()}). If that step has already executed, the callback runs at the beginning of the next step.
+     *
+     * Timers run on loop time: they do not advance while the {@link StepLoop} is paused, and they are cleared when it finishes.
+     *
+     * @param {number} step - the step to run the callback on
+     * @param {Function} callback - the function to call, with timing information about the step
+     * @returns {Function} a function that cancels the timer when called
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.at_step(120, () => console.log("two seconds in"));
+     * app.start()
+     * ```
+     * @instance
+     */
+    public at_step(step: number, callback: (context: StepContext<TState>) => void): () => void {
+        return this._add_timer({ kind: 'step', due: step, every: undefined, callback: callback });
+    }
+
+    /**
+     * Schedule a callback to run every `steps` steps, at the beginning of the step (before {@link StepLoop.before()}). The callback first runs `steps` steps after it is scheduled. See {@link StepLoop.at_step()}.
+     *
+     * @param {number} steps - the number of steps between each call
+     * @param {Function} callback - the function to call, with timing information about the step
+     * @returns {Function} a function that cancels the timer when called
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.every_steps(30, (context) => console.log(`step ${context.step}`));
+     * app.start()
+     * ```
+     * @instance
+     */
+    public every_steps(steps: number, callback: (context: StepContext<TState>) => void): () => void {
+        const every = Math.max(1, steps);
+        return this._add_timer({ kind: 'step', due: this._step_num + this._pendingSteps + every, every: every, callback: callback });
+    }
+
+    /**
+     * Schedule a callback to run once, at the beginning of the first step after `ms` milliseconds of loop time have passed (see {@link StepLoop.get_elapsed()}). See {@link StepLoop.at_step()}.
+     *
+     * @param {number} ms - the loop time to wait, in milliseconds
+     * @param {Function} callback - the function to call, with timing information about the step
+     * @returns {Function} a function that cancels the timer when called
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.after_time(5000, () => app.finish());
+     * app.start()
+     * ```
+     * @instance
+     */
+    public after_time(ms: number, callback: (context: StepContext<TState>) => void): () => void {
+        return this._add_timer({ kind: 'time', due: this._elapsed + ms, every: undefined, callback: callback });
+    }
+
+    /**
+     * Register a system, a named unit of logic that runs as part of every step. Large loops can be built from many small systems instead of one overridden {@link StepLoop.step()}.
+     *
+     * Each system runs in its phase (`"before"`, `"step"` or `"after"`), right after the {@link StepLoop} method of the same name and before that stage's listeners. Within a phase, systems with a higher priority run first; systems with the same priority run in the order they were added. Systems can be added, removed, enabled and disabled at any time, and the time each one takes is tracked (see {@link StepLoop.get_systems()}).
+     *
+     * @param {StepLoopSystem} system - the system to register
+     * @returns {Function} a function that removes the system when called
+     * @throws {Error} if a system with the same name is already registered
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.add_system({ name: "physics", priority: 10, run: (context) => world.update(context.delta_s) });
+     * app.add_system({ name: "ai", run: () => agents.think() });
+     * app.start()
+     * ```
+     * @instance
+     */
+    public add_system(system: StepLoopSystem<TState>): () => void {
+        if (this._systems.some(entry => entry.system.name === system.name)) {
+            throw new Error(`A system named "${system.name}" is already registered`);
+        }
+
+        const entry: SystemEntry<TState> = {
+            system: system,
+            phase: system.phase ?? 'step',
+            priority: system.priority ?? 0,
+            enabled: system.enabled ?? true,
+            runs: 0,
+            last_time: 0,
+            total_time: 0,
+        };
+        const systems = [...this._systems];
+        const index = systems.findIndex(other => other.priority < entry.priority);
+        systems.splice(index === -1 ? systems.length : index, 0, entry);
+        this._systems = systems;
+
+        return () => {
+            this._systems = this._systems.filter(other => other !== entry);
+        };
+    }
+
+    /**
+     * Remove a system registered with {@link StepLoop.add_system()}.
+     *
+     * @param {string} name - the name of the system to remove
+     * @returns {boolean} `true` if the system was removed
+     * @instance
+     */
+    public remove_system(name: string): boolean {
+        const systems = this._systems.filter(entry => entry.system.name !== name);
+        const removed = systems.length !== this._systems.length;
+        this._systems = systems;
+        return removed;
+    }
+
+    /**
+     * Enable or disable a system registered with {@link StepLoop.add_system()}. Disabled systems stay registered, in order, but do not run.
+     *
+     * @param {string} name - the name of the system
+     * @param {boolean} enabled - `true` to run the system, `false` to skip it
+     * @returns {boolean} `true` if the system exists
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.add_system({ name: "debug-overlay", phase: "after", enabled: false, run: () => overlay.draw() });
+     *
+     * app.set_system_enabled("debug-overlay", true)
+     * ```
+     * @instance
+     */
+    public set_system_enabled(name: string, enabled: boolean): boolean {
+        const entry = this._systems.find(other => other.system.name === name);
+        if (!entry) return false;
+
+        entry.enabled = enabled;
+        return true;
+    }
+
+    /**
+     * Returns information about the registered systems, including how long they take to run, in the order they run in (by phase, then priority).
+     *
+     * @returns {StepLoopSystemInfo[]} the registered systems
+     * @example
+     * ```ts
+     * for (const system of app.get_systems()) {
+     *     console.log(`${system.name}: ${system.mean_time}ms`);
+     * }
+     * ```
+     * @instance
+     */
+    public get_systems(): StepLoopSystemInfo[] {
+        return STEP_STAGES.flatMap(phase => this._systems.filter(entry => entry.phase === phase)).map(entry => ({
+            name: entry.system.name,
+            phase: entry.phase,
+            priority: entry.priority,
+            enabled: entry.enabled,
+            runs: entry.runs,
+            last_time: entry.last_time,
+            mean_time: entry.runs > 0 ? entry.total_time / entry.runs : 0,
+            total_time: entry.total_time,
+        }));
+    }
+
+    /**
+     * Add a {@link StepLoopPlugin} to the {@link StepLoop}. Plugins are installed each time the loop starts, in the order they were added, and cleaned up in the reverse order when it ends; a finished loop that is revived by extending its lifespan (see {@link StepLoop.extend_lifespan()}) installs them again. If the loop is already running or paused, the plugin is installed right away.
+     *
+     * A plugin's dependencies must be added before it, so the install order is always the order of the calls to {@link StepLoop.use()}.
+     *
+     * @param {StepLoopPlugin} plugin - the plugin to add
+     * @returns {StepLoop} the loop, so calls can be chained
+     * @throws {Error} if a plugin with the same name was already added, or if one of its dependencies was not
+     * @example
+     * ```ts
+     * const fps_counter = {
+     *     name: "fps",
+     *     fps: 0,
+     *     install(loop: StepLoop) {
+     *         return loop.on("after", () => { this.fps = loop.get_real_sps(); });
+     *     },
+     * };
+     *
+     * let app: StepLoop = new StepLoop();
+     * app.use(fps_counter).start()
+     * ```
+     * @instance
+     */
+    public use(plugin: StepLoopPlugin): this {
+        if (this._plugins.some(other => other.name === plugin.name)) {
+            throw new Error(`A plugin named "${plugin.name}" is already installed`);
+        }
+        for (const dependency of plugin.dependencies ?? []) {
+            if (!this._plugins.some(other => other.name === dependency)) {
+                throw new Error(`The plugin "${plugin.name}" depends on "${dependency}", which must be installed first`);
+            }
+        }
+
+        this._plugins = [...this._plugins, plugin];
+        if (this._state === 'running' || this._state === 'paused') {
+            this._install_plugin(plugin);
+        }
+        return this;
+    }
+
+    /**
+     * Returns a plugin added with {@link StepLoop.use()}, to read or change its state.
+     *
+     * @param {string} name - the name of the plugin
+     * @returns {StepLoopPlugin | undefined} the plugin; `undefined` if no plugin has that name
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.use(fps_counter).start()
+     *
+     * console.log(app.get_plugin<typeof fps_counter>("fps")?.fps)
+     * ```
+     * @instance
+     */
+    public get_plugin<T extends StepLoopPlugin = StepLoopPlugin>(name: string): T | undefined {
+        return this._plugins.find(plugin => plugin.name === name) as T | undefined;
+    }
+
+    /**
+     * Returns the names of the plugins added with {@link StepLoop.use()}, in the order they are installed.
+     *
+     * @returns {string[]} the names of the plugins
+     * @instance
+     */
+    public get_plugins(): string[] {
+        return this._plugins.map(plugin => plugin.name);
+    }
+
+    /**
+     * Add a listener to one of the {@link StepLoopEvents}. Listeners are called right after the {@link StepLoop} method of the same stage, so several independent modules can react to the lifecycle of one loop without subclassing it.
+     *
+     * Listeners with a higher `priority` are called first; listeners with the same priority are called in the order they were added.
+     *
+     * @param {string} event - the name of the event to listen to
+     * @param {Function} listener - the function to call when the event is emitted
+     * @param {number} priority - the priority of the listener; default value is `0`
+     * @returns {Function} a function that removes the listener when called
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * let unsubscribe = app.on("step", (context) => {
+     *     console.log(`step: ${context.step}`);
+     * });
+     *
+     * app.start()
+     * unsubscribe()
+     * ```
+     * @instance
+     */
+    public on<K extends keyof StepLoopEvents>(event: K, listener: StepLoopListener<K, TInput, TState>, priority: number = 0): () => void {
+        return this._add_listener(event, { callback: listener, priority: priority, once: false });
+    }
+
+    /**
+     * Add a listener to one of the {@link StepLoopEvents} that is removed after it is called once. See {@link StepLoop.on()}.
+     *
+     * @param {string} event - the name of the event to listen to
+     * @param {Function} listener - the function to call when the event is emitted
+     * @param {number} priority - the priority of the listener; default value is `0`
+     * @returns {Function} a function that removes the listener when called
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * app.once("final", () => {
+     *     console.log("finished");
+     * });
+     * ```
+     * @instance
+     */
+    public once<K extends keyof StepLoopEvents>(event: K, listener: StepLoopListener<K, TInput, TState>, priority: number = 0): () => void {
+        return this._add_listener(event, { callback: listener, priority: priority, once: true });
+    }
+
+    /**
+     * Remove a listener added with {@link StepLoop.on()} or {@link StepLoop.once()}.
+     *
+     * @param {string} event - the name of the event the listener was added to
+     * @param {Function} listener - the listener to remove
+     * @returns {boolean} `true` if the listener was removed
+     * @example
+     * ```ts
+     * let app: StepLoop = new StepLoop();
+     * let listener = () => console.log("paused");
+     * app.on("pause", listener);
+     *
+     * console.log(app.off("pause", listener)) // Output -> `true`
+     * ```
+     * @instance
+     */
+    public off<K extends keyof StepLoopEvents>(event: K, listener: StepLoopListener<K, TInput, TState>): boolean {
+        const listeners: ListenerEntry<K, TInput, TState>[] | undefined = this._listeners[event];
+        if (!listeners) return false;
+
+        const remaining = listeners.filter(entry => entry.callback !== listener);
+        this._set_listeners(event, remaining);
+        return remaining.length !== listeners.length;
+    }
+
+
+
+    private _RAFActive: boolean;
+    private _RAFId: unknown;
+
+    private _listeners: ListenerMap<TInput, TState> = {};
+
+    private _completion!: Promise<void>;
+    private _settleCompletion: ((error?: { error: unknown }) => void) | undefined;
+
+    private _errorPolicy: ErrorPolicy;
+    private _maxConsecutiveErrors: number;
+    private _maxErrorRecords: number;
+    private _consecutiveErrors: number = 0;
+    private _fatalError: { error: unknown } | undefined;
+    private _errors: StepLoopErrorRecord[] = [];
+    private _errorCount: number = 0;
+
+    private _overrunPolicy: OverrunPolicy;
+    private _maxConcurrentSteps: number;
+    private _pendingSteps: number = 0;
+    private _stalled: boolean = false;
+
+    private _catchUpPolicy: CatchUpPolicy;
+    private _maxCatchUpSteps: number;
+    private _pauseWhenHidden: boolean;
+    private _hiddenPaused: boolean = false;
+    private _unwatchVisibility: (() => void) | undefined;
+
+    private _maxBackgroundTasks: number;
+    private _awaitBackground: boolean;
+    private _backgroundTasks: Set<Promise<void>> = new Set();
+    private _backgroundController: AbortController = new AbortController();
+
+    private _statsWindow: number;
+    private _frameTimes: number[] = [];
+    // false until the first step of a run, or after play(), so the time spent before it is not counted as a frame
+    private _measureFrame: boolean = false;
+    private _hookTimes: number[] = [];
+    private _overruns: number = 0;
+
+    private _timers: LoopTimer<TState>[] = [];
+    private _systems: SystemEntry<TState>[] = [];
+    private _plugins: StepLoopPlugin[] = [];
+    private _pluginCleanups: Array<() => void> = [];
+
+    private _timeScale: number;
+
+    private _inputs: QueuedInput<TInput>[] = [];
+    private _nextInputOrder: number = 0;
+    private _recording: { sps: number, time_scale: number, first_step: number | undefined, inputs: RecordedInput<TInput>[], rates: RecordedRate[], deltas: number[] } | undefined;
+    private _replay: ReplayState<TInput> | undefined;
+    private _replaySettings: { sps: number, time_scale: number, lifespan: number | undefined } | undefined;
+
+    private _adaptive: Required<AdaptiveSpsOptions> | undefined;
+    private _adaptiveOverruns: boolean[] = [];
+    private _headroomSteps: number = 0;
+
+    private _profile: RingBuffer<ProfileSpan> = new RingBuffer(0);
+    private _profiling: boolean = false;
+    // The step whose stages are executing, for labelling the spans of StepLoop.span()
+    private _executingStep: number | undefined;
+
+    private _fixedStep: boolean;
+    private _accumulator: number = 0;
+    private _lastFrameTime: number = 0;
+
+    private _request_next_step(timestamp: DOMHighResTimeStamp | number): void {
+        if (this._state !== 'running') return;
+        if (this._timeoutId !== undefined || this._RAFId !== undefined) return;
+
+        if (this._RAFActive && this._clock.has_frames()) {
+            this._RAFId = this._clock.request_frame((nextTimestamp) => {
+                this._RAFId = undefined;
+                this._run(nextTimestamp);
+            });
+            return;
+        }
+
+        const now = this._clock.now();
+        const nextStepTime = this._fixedStep
+            ? this._lastFrameTime + (this._interval - this._accumulator)
+            : this._startTime + ((this._step_num + this._pendingSteps) * this._interval);
+        const delay = Math.max(0, nextStepTime - now);
+
+        this._timeoutId = this._clock.set_timeout(() => {
+            this._timeoutId = undefined;
+            this._run(this._clock.now());
+        }, delay);
+    }
+
+    private _cancel_next_step(): void {
+        if (this._timeoutId !== undefined) {
+            this._clock.clear_timeout(this._timeoutId);
+            this._timeoutId = undefined;
+        }
+        if (this._RAFId !== undefined) {
+            this._clock.cancel_frame(this._RAFId);
+            this._RAFId = undefined;
+        }
+    }
+
+    private _run_systems(phase: 'before' | 'step' | 'after', context: StepContext<TState>): boolean {
+        for (const entry of this._systems) {
+            if (entry.phase !== phase || !entry.enabled) continue;
+
+            const start = this._clock.now();
+            const proceed = this._invoke(phase, () => entry.system.run(context));
+            entry.last_time = this._clock.now() - start;
+            entry.total_time += entry.last_time;
+            entry.runs++;
+            if (!proceed) return false;
+        }
+        return true;
+    }
+
+    private _apply_inputs(context: StepContext<TState>): boolean {
+        const due = this._inputs.filter(queued => (queued.due ?? context.step) <= context.step);
+        this._inputs = this._inputs.filter(queued => !due.includes(queued));
+        due.sort((a, b) => (a.due ?? context.step) - (b.due ?? context.step) || a.order - b.order);
+
+        const inputs = [...(this._replay?.inputs.get(context.step) ?? []), ...due.map(queued => queued.input)];
+        this._replay?.inputs.delete(context.step);
+
+        for (const input of inputs) {
+            this._recording?.inputs.push({ step: context.step, input: input });
+            if (!this._invoke('input', () => this.on_input(input, context)) || !this._emit('input', input, context)) return false;
+        }
+        return true;
+    }
+
+    private _record_rate(): void {
+        const recording = this._recording;
+        if (!recording) return;
+
+        // Several changes before the same step are recorded as one
+        const step = this._step_num + this._pendingSteps;
+        const rate: RecordedRate = { step: step, sps: this._sps, time_scale: this._timeScale };
+        if (recording.rates.at(-1)?.step === step) {
+            recording.rates[recording.rates.length - 1] = rate;
+        } else {
+            recording.rates.push(rate);
+        }
+    }
+
+    private _add_timer(timer: LoopTimer<TState>): () => void {
+        this._timers.push(timer);
+        return () => {
+            this._timers = this._timers.filter(other => other !== timer);
+        };
+    }
+
+    private _run_timers(context: StepContext<TState>): boolean {
+        for (const timer of [...this._timers]) {
+            const now = timer.kind === 'step' ? context.step : context.elapsed_ms;
+            if (now < timer.due || !this._timers.includes(timer)) continue;
+
+            if (timer.every === undefined) {
+                this._timers = this._timers.filter(other => other !== timer);
+            } else {
+                timer.due += timer.every;
+            }
+            if (!this._invoke('timer', () => timer.callback(context))) return false;
+        }
+        return true;
+    }
+
+    private _add_listener<K extends keyof StepLoopEvents>(event: K, entry: ListenerEntry<K, TInput, TState>): () => void {
+        const listeners: ListenerEntry<K, TInput, TState>[] = [...(this._listeners[event] ?? [])];
+        const index = listeners.findIndex(other => other.priority < entry.priority);
+        listeners.splice(index === -1 ? listeners.length : index, 0, entry);
+        this._set_listeners(event, listeners);
+
+        return () => {
+            const current: ListenerEntry<K, TInput, TState>[] | undefined = this._listeners[event];
+            if (current) this._set_listeners(event, current.filter(other => other !== entry));
+        };
+    }
+
+    private _set_listeners<K extends keyof StepLoopEvents>(event: K, listeners: ListenerEntry<K, TInput, TState>[]): void {
+        // Narrowed to the one key, as writing through a generic key of the whole map doesn't type-check
+        const map: { [P in K]?: ListenerEntry<P, TInput, TState>[] } = this._listeners;
+        map[event] = listeners;
+    }
+
+    private _emit<K extends keyof StepLoopEvents>(event: K, ...args: StepLoopEvents<TInput, TState>[K]): boolean {
+        const listeners: ListenerEntry<K, TInput, TState>[] | undefined = this._listeners[event];
+        if (!listeners || listeners.length === 0) return true;
+
+        for (const entry of listeners) {
+            if (entry.once) {
+                const current: ListenerEntry<K, TInput, TState>[] = this._listeners[event] ?? [];
+                this._set_listeners(event, current.filter(other => other !== entry));
+            }
+
+            // Errors thrown while reporting an error are only logged, so they can't recurse
+            if (event === 'error') {
+                try {
+                    entry.callback(...args);
+                } catch (error) {
+                    console.error('Error in error listener:', error);
+                }
+                continue;
+            }
+
+            const stage = event as StepLoopStage;
+            if (!this._invoke(stage, () => {
+                const result = entry.callback(...args);
+                if (result instanceof Promise) {
+                    const step = this._executingStep ?? this._step_num;
+                    result.catch(error => this._handle_error(error, stage, step));
+                }
+            })) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    private _invoke(stage: StepLoopStage, hook: () => void): boolean {
+        try {
+            hook();
+            return true;
+        } catch (error) {
+            return this._handle_error(error, stage);
+        }
+    }
+
+    private _handle_error(error: unknown, stage: StepLoopStage, step: number = this._executingStep ?? this._step_num): boolean {
+        const record: StepLoopErrorRecord = { error: error, stage: stage, step: step, time: this._clock.now() };
+        push_bounded(this._errors, record, this._maxErrorRecords);
+        this._errorCount++;
+        this._consecutiveErrors++;
+
+        try {
+            this.on_error(error, stage, record.step);
+        } catch (handlerError) {
+            console.error('Error in on_error():', handlerError);
+        }
+        this._emit('error', record);
+
+        switch (this._errorPolicy) {
+            case 'continue':
+                return true;
+            case 'skip_step':
+                return false;
+            case 'pause':
+                if (this._state === 'running') this.pause();
+                return false;
+            case 'finish':
+                if (this._consecutiveErrors >= this._maxConsecutiveErrors) {
+                    if (this._state === 'running' || this._state === 'paused') {
+                        this._fatalError = { error: error };
+                        this.finish();
+                    }
+                    return false;
+                }
+                return true;
+        }
+    }
+
+    private _check_for_end_trigger(timestamp: number, delta: number): StepLoopEndReason | undefined {
+        if (this._state === 'finished') return this._endReason;
+        if (this._lifespan && ((this._step_num + this._pendingSteps) >= this._lifespan)) return 'lifespan';
+        if (this._duration !== undefined && (this._elapsed + delta) >= this._duration) return 'duration';
+        if (this._deadline !== undefined && timestamp >= this._deadline) return 'deadline';
+
+        for (const condition of this._stopConditions) {
+            let met = false;
+            this._invoke('stop_condition', () => { met = condition(); });
+            if (met || this.get_state() === 'finished') return met ? 'condition' : this._endReason;
+        }
+        return undefined;
+    }
+
+    private _init(snapshot?: StepLoopSnapshot): void {
+        this._new_run();
+        this._step_num = snapshot?.step ?? 0;
+        this._fatalError = undefined;
+        this._hiddenPaused = false;
+        this._watch_visibility();
+        this._arm_deadline();
+        if (!this._settleCompletion) this._reset_completion();
+        this._elapsed = snapshot?.elapsed_ms ?? 0;
+        this._previousUserState = undefined;
+        this._lastStepTime = this._clock.now();
+        this._lastStepDuration = 0;
+        this._consecutiveErrors = 0;
+        this._backgroundController = new AbortController();
+        this._frameTimes = [];
+        this._hookTimes = [];
+        this._measureFrame = false;
+        this._overruns = 0;
+        for (const entry of this._systems) {
+            entry.runs = 0;
+            entry.last_time = 0;
+            entry.total_time = 0;
+        }
+        for (const plugin of this._plugins) {
+            this._install_plugin(plugin);
+        }
+        if (this._invoke('initial', () => {
+            const state = this.initial();
+            if (state !== undefined) this._userState = state;
+        })) {
+            this._emit('initial');
+        }
+        if (snapshot) {
+            this._invoke('initial', () => this.load_state(snapshot.state));
+        }
+    }
+
+    private _reset_accumulator(): void {
+        // Primed with a full interval so the first frame executes a step immediately
+        this._accumulator = this._interval;
+        this._lastFrameTime = this._clock.now();
+    }
+
+    private _run(timestamp: number): void {
+        if (this._state !== 'running') return;
+        this._stalled = false;
+
+        if (this._fixedStep) {
+            this._accumulator += Math.max(0, timestamp - this._lastFrameTime);
+            this._lastFrameTime = timestamp;
+
+            const missed = Math.max(0, Math.floor(this._accumulator / this._interval) - 1);
+            const limit = this._catch_up_limit();
+            if (missed > limit) {
+                this._accumulator -= (missed - limit) * this._interval;
+            }
+
+            let behind = missed;
+            while (this._accumulator >= this._interval) {
+                const scheduled = timestamp - (this._accumulator - this._interval);
+                if (!this._execute_step(timestamp, scheduled, this._interval, behind)) return;
+                this._accumulator -= this._interval;
+                behind = Math.max(0, Math.floor(this._accumulator / this._interval) - 1);
+            }
+
+            const alpha = this._accumulator / this._interval;
+            if (this._invoke('render', () => this.render(alpha))) {
+                this._emit('render', alpha);
+            }
+        } else {
+            const missed = Math.max(0, Math.floor((timestamp - this._next_step_time()) / this._interval));
+            const limit = this._catch_up_limit();
+            const dropped = Math.max(0, missed - limit);
+            this._startTime += dropped * this._interval;
+
+            const steps = this._catchUpPolicy === 'burst' ? 1 : Math.min(missed, limit) + 1;
+            // Spread the time since the previous step over the steps of this tick, leaving out the dropped steps
+            let remaining = Math.max(0, timestamp - this._lastStepTime - (dropped * this._interval));
+            for (let i = 0; i < steps; i++) {
+                const scheduled = this._next_step_time();
+                const behind = i === 0 ? missed : Math.max(0, Math.floor((timestamp - scheduled) / this._interval));
+                const delta = this._catchUpPolicy === 'burst' ? timestamp - this._lastStepTime : i < steps - 1 ? Math.min(this._interval, remaining) : remaining;
+                remaining -= delta;
+                if (!this._execute_step(timestamp, scheduled, delta, behind)) return;
+            }
+        }
+
+        this._request_next_step(timestamp);
+    }
+
+    private _next_step_time(): number {
+        return this._startTime + ((this._step_num + this._pendingSteps) * this._interval);
+    }
+
+    private _catch_up_limit(): number {
+        switch (this._catchUpPolicy) {
+            case 'burst':
+                return Infinity;
+            case 'batch':
+                return this._maxCatchUpSteps;
+            case 'drop':
+                return 0;
+        }
+    }
+
+    private _arm_deadline(): void {
+        this._disarm_deadline();
+        if (this._deadline === undefined || (this._state !== 'running' && this._state !== 'paused')) return;
+
+        // Steps check the deadline while running; this timer ends a paused loop when it passes
+        this._deadlineTimer = this._clock.set_timeout(() => {
+            this._deadlineTimer = undefined;
+            if (this._state === 'paused') this._term('deadline');
+        }, Math.max(0, this._deadline - this._clock.now()));
+    }
+
+    private _disarm_deadline(): void {
+        if (this._deadlineTimer === undefined) return;
+
+        this._clock.clear_timeout(this._deadlineTimer);
+        this._deadlineTimer = undefined;
+    }
+
+    private _watch_visibility(): void {
+        this._unwatchVisibility?.();
+        this._unwatchVisibility = undefined;
+        if (!this._pauseWhenHidden || !this._clock.watch_visibility) return;
+
+        this._unwatchVisibility = this._clock.watch_visibility((hidden) => {
+            if (hidden && this._state === 'running') {
+                this.pause();
+                this._hiddenPaused = true;
+            } else if (!hidden) {
+                const resume = this._hiddenPaused && this._state === 'paused';
+                this._hiddenPaused = false;
+                if (resume) this.play();
+            }
+        });
+    }
+
+    private _execute_step(timestamp: number, scheduled: number, delta: number, missed: number = 0): boolean {
+        const limit = this._overrunPolicy === 'overlap' ? this._maxConcurrentSteps : 1;
+        if (this._pendingSteps >= limit) {
+            this._stalled = true;
+            return false;
+        }
+
+        const step = this._step_num + this._pendingSteps;
+        const replay = this._replay;
+        const rate = replay?.rates.get(step);
+        if (replay && rate) {
+            this.set_sps(rate.sps * replay.pace);
+            this.set_time_scale(rate.time_scale);
+        }
+
+        const scaled = replay?.deltas[step - replay.first_step] ?? delta * this._timeScale;
+        const reason = this._check_for_end_trigger(timestamp, scaled);
+        if (reason) {
+            // A stop condition may have ended the loop through the error policy
+            if (this._state === 'finished') return false;
+            if (this._pendingSteps > 0) {
+                // Let the pending steps resolve before the termination stage
+                this._stalled = true;
+                return false;
+            }
+            this._term(reason);
+            return false;
+        }
+
+        this._elapsed += scaled;
+        if (this._recording) {
+            this._recording.first_step ??= step;
+            this._recording.deltas.push(scaled);
+        }
+        if (this._keepPreviousState && this._userState !== undefined && this._pendingSteps === 0) {
+            const state = this._userState;
+            this._invoke('copy_state', () => { this._previousUserState = this.copy_state(state); });
+        }
+        const context: StepContext<TState> = {
+            step: step,
+            delta_ms: scaled,
+            delta_s: scaled / 1000,
+            elapsed_ms: this._elapsed,
+            time_scale: this._timeScale,
+            scheduled_time: scheduled,
+            actual_time: timestamp,
+            lateness: timestamp - scheduled,
+            missed_steps: missed,
+            state: this._userState,
+            previous_state: this._previousUserState,
+        };
+        // Real time between steps for the statistics, as the delta time is ideal in fixed-step mode and while catching up
+        const frame = this._measureFrame ? timestamp - this._lastStepTime : undefined;
+        this._measureFrame = true;
+        this._lastStepDuration = delta;
+        this._lastStepTime = timestamp;
+
+        const errorCount = this._errorCount;
+        const hookStart = this._clock.now();
+        const signal = this._backgroundController.signal;
+        this._executingStep = context.step;
+        const started = this._apply_inputs(context) && this._run_timers(context) && (this._backgroundTasks.size >= this._maxBackgroundTasks || (this._invoke('background', () => {
+            const start = this._clock.now();
+            const task = this._track_background(this.background(context, signal), signal, context.step);
+            if (this._profiling) {
+                task.then(() => this._record_span('background', 'background', context.step, start));
+            }
+        }) && this._emit('background', context, signal)));
+
+        const pending = started ? this._run_stages(context, 0) : undefined;
+        this._executingStep = undefined;
+        if (pending) {
+            const generation = this._generation;
+            this._pendingSteps++;
+            pending.then(() => {
+                if (generation !== this._generation) return;
+                this._pendingSteps--;
+                this._complete_step(context, frame, hookStart, errorCount);
+                this._resume_stalled();
+            });
+            return this._state === 'running';
+        }
+
+        this._complete_step(context, frame, hookStart, errorCount);
+        return this._state === 'running';
+    }
+
+    private _track_background(work: Promise<void>, signal: AbortSignal, step: number): Promise<void> {
+        const task: Promise<void> = Promise.resolve(work).catch(error => {
+            // Work cancelled by the signal is expected, not an error
+            if (signal.aborted && (error === signal.reason || (error as Error | undefined)?.name === 'AbortError')) return;
+            this._handle_error(error, 'background', step);
+        }).finally(() => {
+            this._backgroundTasks.delete(task);
+        });
+        this._backgroundTasks.add(task);
+        return task;
+    }
+
+    private _record_span(name: string, category: ProfileSpan['category'], step: number, start: number): void {
+        if (!this._profiling) return;
+
+        this._profile.push({ name: name, category: category, step: step, start: start, duration: this._clock.now() - start });
+    }
+
+    private _run_stages(context: StepContext<TState>, index: number): Promise<void> | undefined {
+        for (let i = index; i < STEP_STAGES.length; i++) {
+            const stage = STEP_STAGES[i]!;
+            const start = this._clock.now();
+            let result: void | Promise<void> = undefined;
+
+            if (!this._invoke(stage, () => { result = this[stage](context); })) {
+                this._record_span(stage, 'stage', context.step, start);
+                return undefined;
+            }
+
+            if (is_thenable(result)) {
+                const generation = this._generation;
+                return Promise.resolve(result).then(
+                    () => true,
+                    (error: unknown) => generation === this._generation && this._handle_error(error, stage, context.step),
+                ).then(proceed => {
+                    if (generation !== this._generation) return;
+                    this._executingStep = context.step;
+                    const next = proceed && this._run_systems(stage, context) && this._emit(stage, context);
+                    this._record_span(stage, 'stage', context.step, start);
+                    const pending = next ? this._run_stages(context, i + 1) : undefined;
+                    this._executingStep = undefined;
+                    return pending;
+                });
+            }
+
+            const next = this._run_systems(stage, context) && this._emit(stage, context);
+            this._record_span(stage, 'stage', context.step, start);
+            if (!next) return undefined;
+        }
+        return undefined;
+    }
+
+    private _complete_step(context: StepContext<TState>, frame: number | undefined, hookStart: number, errorCount: number): void {
+        if (this._errorCount === errorCount) {
+            this._consecutiveErrors = 0;
+        }
+        this._step_num++;
+
+        const hookTime = this._clock.now() - hookStart;
+        push_bounded(this._hookTimes, hookTime, this._statsWindow);
+        if (frame !== undefined) {
+            push_bounded(this._frameTimes, frame, this._statsWindow);
+        }
+
+        const overran = hookTime > this._interval;
+        if (overran) {
+            this._overruns++;
+            if (this._invoke('overrun', () => this.on_overrun(hookTime, context))) {
+                this._emit('overrun', hookTime, context);
+            }
+        }
+        this._adapt_sps(hookTime, overran);
+    }
+
+    private _adapt_sps(hookTime: number, overran: boolean): void {
+        const adaptive = this._adaptive;
+        if (!adaptive) return;
+
+        push_bounded(this._adaptiveOverruns, overran, adaptive.window);
+        this._headroomSteps = hookTime <= this._interval * adaptive.headroom ? this._headroomSteps + 1 : 0;
+
+        const overruns = this._adaptiveOverruns.filter(Boolean).length;
+        if (overruns >= adaptive.overrun_threshold && this._sps > adaptive.min_sps) {
+            this.set_sps(Math.max(adaptive.min_sps, this._sps * adaptive.decrease_factor));
+        } else if (this._headroomSteps >= adaptive.recovery_steps && this._sps < adaptive.max_sps) {
+            this.set_sps(Math.min(adaptive.max_sps, this._sps * adaptive.increase_factor));
+        }
+    }
+
+    private _resume_stalled(): void {
+        if (!this._stalled || this._state !== 'running') return;
+        this._stalled = false;
+
+        if (this._overrunPolicy === 'skip') {
+            const now = this._clock.now();
+            if (this._fixedStep) {
+                this._accumulator += Math.max(0, now - this._lastFrameTime);
+                this._lastFrameTime = now;
+                this._accumulator %= this._interval;
+            } else {
+                const nextStepTime = this._startTime + ((this._step_num + this._pendingSteps) * this._interval);
+                if (nextStepTime < now) {
+                    this._startTime += Math.ceil((now - nextStepTime) / this._interval) * this._interval;
+                }
+            }
+        }
+
+        this._request_next_step(this._clock.now());
+    }
+
+    private _term(reason: StepLoopEndReason): void {
+        this._endReason = reason;
+        this._pausedTime = this._clock.now();
+        this._cancel_next_step();
+        this._backgroundController.abort();
+        this._timers = [];
+        this._replay = undefined;
+        this._restore_replay_settings();
+        this._unwatchVisibility?.();
+        this._unwatchVisibility = undefined;
+        this._disarm_deadline();
+        // Asynchronous steps still pending are dropped when they settle, so none of their stages run after final()
+        this._generation++;
+        this._pendingSteps = 0;
+        this._set_state('finished');
+
+        const settle = this._settleCompletion;
+        const fatal = this._fatalError;
+        const cleanups = this._pluginCleanups;
+        this._settleCompletion = undefined;
+        this._pluginCleanups = [];
+        const end = () => {
+            if (this._deferredEnd === end) this._deferredEnd = undefined;
+            this._final(reason, cleanups);
+            settle?.(fatal);
+        };
+
+        if (this._awaitBackground && this._backgroundTasks.size > 0) {
+            this._deferredEnd = end;
+            Promise.allSettled([...this._backgroundTasks]).then(() => {
+                if (this._deferredEnd === end) end();
+            });
+            return;
+        }
+        end();
+    }
+
+    private _restore_replay_settings(): void {
+        const settings = this._replaySettings;
+        if (!settings) return;
+
+        this._replaySettings = undefined;
+        this.set_sps(settings.sps);
+        this.set_time_scale(settings.time_scale);
+        this._lifespan = settings.lifespan;
+    }
+
+    private _new_run(): void {
+        // A termination stage still waiting for background tasks ends now, rather than in the middle of the new run
+        this._deferredEnd?.();
+        this._generation++;
+        this._pendingSteps = 0;
+        this._stalled = false;
+    }
+
+    private _final(reason: StepLoopEndReason, cleanups: Array<() => void>): void {
+        if (this._invoke('final', () => this.final(reason))) {
+            this._emit('final', reason);
+        }
+
+        for (const cleanup of cleanups.reverse()) {
+            this._invoke('plugin', cleanup);
+        }
+    }
+
+    private _install_plugin(plugin: StepLoopPlugin): void {
+        this._invoke('plugin', () => {
+            const cleanup = plugin.install(this);
+            if (cleanup) this._pluginCleanups.push(cleanup);
+        });
+    }
+
+    private _revive(): void {
+        // Undo the per-run teardown of the termination stage, so the revived loop behaves like one that never ended
+        this._deferredEnd?.();
+        this._fatalError = undefined;
+        this._reset_completion();
+        this._watch_visibility();
+        this._arm_deadline();
+        for (const plugin of this._plugins) {
+            this._install_plugin(plugin);
+        }
+        this._set_state('paused');
+    }
+
+    private _set_state(state: StepLoopState): void {
+        const previous = this._state;
+        if (previous === state) return;
+
+        this._state = state;
+        if (this._invoke('state_change', () => this.on_state_change(state, previous))) {
+            this._emit('state_change', state, previous);
+        }
+    }
+
+    private _check_state(action: string, allowed: StepLoopState[]): boolean {
+        if (allowed.includes(this._state)) return true;
+        if (this._strict) {
+            throw new Error(`Cannot call ${action}() on a StepLoop that is ${this._state}; it can only be called when the loop is ${allowed.join(' or ')}`);
+        }
+        return false;
+    }
+
+    private _reset_completion(): void {
+        this._completion = new Promise<void>((resolve, reject) => {
+            this._settleCompletion = (fatal) => fatal ? reject(fatal.error) : resolve();
+        });
+        // an ignored completion promise should not be reported as an unhandled rejection
+        this._completion.catch(() => {});
+    }
+
+    private _main(snapshot?: StepLoopSnapshot): void{
+        this._init(snapshot);
+        this._reset_accumulator();
+        this._run(this._clock.now());
+    }
+}
+
+/**
+ * The default {@link Clock} used by a {@link StepLoop}, backed by the host environment's timers.
+ *
+ * Reads the time with {@link performance.now()}, schedules steps with {@link setTimeout()} and schedules frames with {@link window.requestAnimationFrame()} when it is available.
+ *
+ * @example
+ * ```ts
+ * class App extends StepLoop {}
+ * let app: App = new App(60, undefined, false, { clock: new SystemClock() });
+ * ```
+ * @class
+ */
+export class SystemClock implements Clock {
+    public now(): number {
+        return performance.now();
+    }
+
+    public set_timeout(callback: () => void, delay: number): unknown {
+        return setTimeout(callback, delay);
+    }
+
+    public clear_timeout(handle: unknown): void {
+        clearTimeout(handle as ReturnType<typeof setTimeout>);
+    }
+
+    public has_frames(): boolean {
+        return typeof requestAnimationFrame !== 'undefined';
+    }
+
+    public request_frame(callback: (timestamp: number) => void): unknown {
+        return requestAnimationFrame(callback);
+    }
+
+    public cancel_frame(handle: unknown): void {
+        cancelAnimationFrame(handle as number);
+    }
+
+    public watch_visibility(callback: (hidden: boolean) => void): () => void {
+        if (typeof document === 'undefined') return () => {};
+
+        const listener = () => callback(document.hidden);
+        document.addEventListener('visibilitychange', listener);
+        return () => document.removeEventListener('visibilitychange', listener);
+    }
+}
+
+/**
+ * Options for a {@link PreciseClock}, trading CPU time for timing accuracy.
+ *
+ * @interface
+ */
+export interface PreciseClockOptions {
+    /** how early (in milliseconds) the coarse {@link setTimeout()} wakes up before a deadline, to absorb timer granularity; default value is `2` */
+    margin?: number;
+    /** how long (in milliseconds) before a deadline to stop yielding with {@link setImmediate()} and busy-wait instead; `0` never busy-waits; default value is `0` */
+    spin?: number;
+}
+
+type PreciseTimer = { deadline: number, callback: () => void, handle: unknown, immediate: boolean, cancelled: boolean };
+
+// setImmediate() is only available in Node, so it is looked up at runtime instead of relying on its type declarations
+const IMMEDIATE = globalThis as { setImmediate?: (callback: () => void) => unknown, clearImmediate?: (handle: unknown) => void };
+
+/**
+ * A {@link Clock} for high step rates, backed by the host environment's timers like {@link SystemClock} but with sub-millisecond scheduling.
+ *
+ * Each step is scheduled in three phases: a coarse {@link setTimeout()} sleeps until {@link PreciseClockOptions.margin} milliseconds before the deadline, then the clock yields with {@link setImmediate()} (or a zero-delay timeout where it is not available) until {@link PreciseClockOptions.spin} milliseconds before the deadline, and finally busy-waits until the deadline itself. A larger margin and spin give better accuracy at the cost of CPU time; with the defaults the clock never busy-waits, but keeps the event loop busy for the last 2 milliseconds before each step.
+ *
+ * @example
+ * ```ts
+ * class App extends StepLoop {}
+ * let app: App = new App(1000, undefined, false, { clock: new PreciseClock({ spin: 0.2 }) });
+ * ```
+ * @class
+ */
+export class PreciseClock extends SystemClock {
+    private _margin: number;
+    private _spin: number;
+
+    /**
+     * Create a `PreciseClock`, with options to trade CPU time for timing accuracy.
+     * @param {PreciseClockOptions} options - how early to stop sleeping and start busy-waiting before each deadline; default value is `{}`
+     */
+    constructor(options: PreciseClockOptions = {}) {
+        super();
+        this._margin = Math.max(0, options.margin ?? 2);
+        this._spin = Math.min(this._margin, Math.max(0, options.spin ?? 0));
+    }
+
+    public override set_timeout(callback: () => void, delay: number): unknown {
+        const timer: PreciseTimer = { deadline: this.now() + delay, callback: callback, handle: undefined, immediate: false, cancelled: false };
+        this._schedule(timer);
+        return timer;
+    }
+
+    public override clear_timeout(handle: unknown): void {
+        const timer = handle as PreciseTimer;
+        if (timer.cancelled) return;
+
+        timer.cancelled = true;
+        if (timer.immediate) {
+            IMMEDIATE.clearImmediate?.(timer.handle);
+        } else {
+            clearTimeout(timer.handle as ReturnType<typeof setTimeout>);
+        }
+    }
+
+    private _schedule(timer: PreciseTimer): void {
+        const remaining = timer.deadline - this.now();
+        if (remaining > this._margin) {
+            timer.immediate = false;
+            timer.handle = setTimeout(() => this._wait(timer), remaining - this._margin);
+        } else {
+            timer.immediate = IMMEDIATE.setImmediate !== undefined;
+            timer.handle = IMMEDIATE.setImmediate ? IMMEDIATE.setImmediate(() => this._wait(timer)) : setTimeout(() => this._wait(timer), 0);
+        }
+    }
+
+    private _wait(timer: PreciseTimer): void {
+        if (timer.cancelled) return;
+
+        if (timer.deadline - this.now() > this._spin) {
+            this._schedule(timer);
+            return;
+        }
+        while (this.now() < timer.deadline) {
+            // busy-wait for the last moments before the deadline
+        }
+        timer.cancelled = true;
+        timer.callback();
+    }
+}
+
+type ScheduledCallback = { id: number, time: number, frame: boolean, callback: (timestamp: number) => void };
+
+/**
+ * A virtual {@link Clock} that only moves forward when told to, for driving a {@link StepLoop} synchronously and deterministically (e.g. in tests).
+ *
+ * Time starts at `start` and never advances on its own. Calling {@link ManualClock.advance()} moves time forward and runs every scheduled callback that falls due, in order, before returning. Frames are simulated at a fixed `frame_interval`, so loops using {@link window.requestAnimationFrame()} can be driven the same way.
+ *
+ * @example
+ * ```ts
+ * class App extends StepLoop {
+ *     override step(): void {
+ *         console.log(`step: ${this.get_step()}`);
+ *     }
+ * }
+ *
+ * let clock: ManualClock = new ManualClock();
+ * let app: App = new App(10, undefined, false, { clock: clock });
+ * app.start() // Output -> `step: 0`
+ *
+ * clock.advance(200) // Output -> `step: 1`, `step: 2`
+ * ```
+ * @class
+ */
+export class ManualClock implements Clock {
+    private _now: number;
+    private _origin: number;
+    private _frameInterval: number;
+    private _nextId: number = 1;
+    private _pending: ScheduledCallback[] = [];
+    private _hidden: boolean = false;
+    private _visibilityWatchers: Array<(hidden: boolean) => void> = [];
+
+    /**
+     * Create a `ManualClock`, with options to define the starting time and the interval between simulated frames.
+     * @param {number} start - the starting time, in milliseconds; default value is `0`
+     * @param {number} frame_interval - the time between simulated display frames, in milliseconds; default value is `1000 / 60`
+     */
+    constructor(start: number = 0, frame_interval: number = 1000 / 60) {
+        this._now = start;
+        this._origin = start;
+        this._frameInterval = frame_interval;
+    }
+
+    public now(): number {
+        return this._now;
+    }
+
+    public set_timeout(callback: () => void, delay: number): unknown {
+        return this._schedule(this._now + Math.max(0, delay), () => callback(), false);
+    }
+
+    public clear_timeout(handle: unknown): void {
+        this._unschedule(handle);
+    }
+
+    public has_frames(): boolean {
+        return true;
+    }
+
+    public request_frame(callback: (timestamp: number) => void): unknown {
+        let frame = Math.floor((this._now - this._origin) / this._frameInterval) + 1;
+        if (this._origin + (frame * this._frameInterval) <= this._now) {
+            frame++;
+        }
+        return this._schedule(this._origin + (frame * this._frameInterval), callback, true);
+    }
+
+    public cancel_frame(handle: unknown): void {
+        this._unschedule(handle);
+    }
+
+    public watch_visibility(callback: (hidden: boolean) => void): () => void {
+        this._visibilityWatchers = [...this._visibilityWatchers, callback];
+        return () => {
+            this._visibilityWatchers = this._visibilityWatchers.filter(watcher => watcher !== callback);
+        };
+    }
+
+    /**
+     * Simulates the page being hidden or shown again. While the page is hidden, frame callbacks scheduled with {@link ManualClock.request_frame()} do not run, like {@link window.requestAnimationFrame()} in a hidden tab; they run as soon as time advances after the page is shown again. Callbacks passed to {@link ManualClock.watch_visibility()} are told about the change.
+     *
+     * @param {boolean} hidden - `true` to hide the page, `false` to show it
+     * @returns {void} `void`
+     * @example
+     * ```ts
+     * let clock: ManualClock = new ManualClock();
+     *
+     * clock.set_hidden(true)
+     * clock.advance(5000) // no frames run
+     * clock.set_hidden(false)
+     * ```
+     * @instance
+     */
+    public set_hidden(hidden: boolean): void {
+        if (this._hidden === hidden) return;
+
+        this._hidden = hidden;
+        for (const watcher of this._visibilityWatchers) {
+            watcher(hidden);
+        }
+    }
+
+    /**
+     * Returns the number of callbacks that are scheduled but have not run yet.
+     *
+     * @returns {number} the number of pending callbacks
+     * @instance
+     */
+    public pending(): number {
+        return this._pending.length;
+    }
+
+    /**
+     * Moves time forward by `ms` milliseconds, running every callback that falls due along the way in the order they are scheduled. Callbacks scheduled while advancing also run if they fall due before the new time.
+     *
+     * @param {number} ms - the number of milliseconds to advance
+     * @returns {number} the new time
+     * @example
+     * ```ts
+     * let clock: ManualClock = new ManualClock();
+     *
+     * console.log(clock.advance(100)) // Output -> `100`
+     * ```
+     * @instance
+     */
+    public advance(ms: number): number {
+        const target = this._now + Math.max(0, ms);
+
+        let next = this._next_due(target);
+        while (next) {
+            this._fire(next);
+            next = this._next_due(target);
+        }
+
+        this._now = Math.max(this._now, target);
+        return this._now;
+    }
+
+    /**
+     * Moves time forward to the next scheduled callback and runs it, repeating `count` times. Stops early if nothing is scheduled.
+     *
+     * @param {number} count - the number of callbacks to run; default value is `1`
+     * @returns {number} the number of callbacks that ran
+     * @instance
+     */
+    public next(count: number = 1): number {
+        let fired = 0;
+        while (fired < count) {
+            const next = this._next_due(Infinity);
+            if (!next) break;
+            this._fire(next);
+            fired++;
+        }
+        return fired;
+    }
+
+    /**
+     * Moves time forward until `loop` has executed `steps` more steps, running every callback along the way. Stops early if nothing is scheduled (e.g. the loop paused or finished).
+     *
+     * @param {StepLoop} loop - a loop driven by this clock
+     * @param {number} steps - the number of steps to advance
+     * @returns {number} the number of steps the loop executed
+     * @example
+     * ```ts
+     * let clock: ManualClock = new ManualClock();
+     * let app: StepLoop = new StepLoop(60, undefined, false, { clock: clock });
+     * app.start()
+     *
+     * console.log(clock.advance_steps(app, 10)) // Output -> `10`
+     * console.log(app.get_step()) // Output -> `11`
+     * ```
+     * @instance
+     */
+    public advance_steps(loop: StepLoop, steps: number): number {
+        const from = loop.get_step();
+        while (loop.get_step() - from < steps) {
+            if (this.next() === 0) break;
+        }
+        return loop.get_step() - from;
+    }
+
+    private _schedule(time: number, callback: (timestamp: number) => void, frame: boolean): number {
+        const id = this._nextId++;
+        this._pending.push({ id: id, time: time, frame: frame, callback: callback });
+        return id;
+    }
+
+    private _unschedule(handle: unknown): void {
+        this._pending = this._pending.filter(pending => pending.id !== handle);
+    }
+
+    private _next_due(limit: number): ScheduledCallback | undefined {
+        let next: ScheduledCallback | undefined;
+        for (const pending of this._pending) {
+            if (pending.time > limit || (pending.frame && this._hidden)) continue;
+            if (!next || pending.time < next.time || (pending.time === next.time && pending.id < next.id)) {
+                next = pending;
+            }
+        }
+        return next;
+    }
+
+    private _fire(pending: ScheduledCallback): void {
+        this._unschedule(pending.id);
+        this._now = Math.max(this._now, pending.time);
+        pending.callback(this._now);
+    }
+}
+
+/**
+ * Create a {@link StepLoop} from a plain object of hooks, without declaring a class. Each hook replaces the {@link StepLoop} method of the same name and is called with `this` set to the loop. The types of the inputs and user state of the loop are inferred from the hooks and the {@link StepLoopOptions.state} option.
+ *
+ * @param {StepLoopHooks} hooks - the lifecycle methods of the loop
+ * @param {number} sps - the steps-per-second of the loop; default value is `60`
+ * @param {number | undefined} lifespan - the number of steps that are executed before the loop ends; default value is `undefined`
+ * @param {boolean} RAF - `true` to use {@link window.requestAnimationFrame()} when it is available; default value is `false`
+ * @param {StepLoopOptions} options - additional options for the loop; default value is `{}`
+ * @returns {StepLoop} the new loop
+ * @example
+ * ```ts
+ * import { create_loop } from "steploop";
+ *
+ * const loop = create_loop({
+ *     step() {
+ *         console.log(`step: ${this.get_step()}`);
+ *     },
+ * }, 60, 100);
+ * loop.start();
+ * ```
+ */
+export function create_loop<TInput = unknown, TState = unknown>(hooks: StepLoopHooks<TInput, TState>, sps: number = 60, lifespan: number | undefined = undefined, RAF: boolean = false, options: StepLoopOptions<TState> = {}): StepLoop<TInput, TState> {
+    const loop = new StepLoop<TInput, TState>(sps, lifespan, RAF, options);
+    for (const name of HOOK_NAMES) {
+        const hook = hooks[name];
+        if (hook) {
+            Object.defineProperty(loop, name, { value: hook, writable: true, configurable: true });
+        }
+    }
+    return loop;
+}
+
+type GroupCallback = { id: number, order: number, time: number, callback: (timestamp: number) => void };
+
+// Deadlines closer than this are treated as coinciding, so floating-point error can't reorder them
+const GROUP_EPSILON = 1e-6;
+
+/**
+ * Drives several {@link StepLoop}s, each at its own rate, from a single scheduler and a single {@link window.requestAnimationFrame()} callback.
+ *
+ * Each loop added to the group is given a {@link Clock} that is backed by the group, so every timer the loops request is multiplexed onto one timer of the group's clock, and every frame they request is served by one frame callback. When the deadlines of several loops coincide, they step in the order the loops were added to the group. {@link LoopGroup.pause()}, {@link LoopGroup.play()} and {@link LoopGroup.finish()} apply to the whole group.
+ *
+ * @example
+ * ```ts
+ * import { LoopGroup, StepLoop } from "steploop";
+ *
+ * const physics = new Physics(120);
+ * const logic = new Logic(30);
+ * const render = new Render(60, undefined, true);
+ *
+ * const group = new LoopGroup();
+ * group.add(physics);
+ * group.add(logic);
+ * group.add(render);
+ * group.start();
+ * ```
+ * @class
+ */
+export class LoopGroup {
+    private _clock: Clock;
+    private _loops: StepLoop[] = [];
+    private _nextId: number = 1;
+    private _nextOrder: number = 0;
+    private _orders: Map<StepLoop, number> = new Map();
+
+    private _timers: GroupCallback[] = [];
+    private _frames: GroupCallback[] = [];
+    private _timeoutId: unknown;
+    private _timeoutTime: number | undefined;
+    private _frameId: unknown;
+
+    /**
+     * Create a `LoopGroup`, with an option to define the {@link Clock} that drives it.
+     * @param {Clock} clock - the clock that reads the time and schedules steps for every loop in the group; default value is a new {@link SystemClock}
+     */
+    constructor(clock: Clock = new SystemClock()) {
+        this._clock = clock;
+    }
+
+    /**
+     * Add a {@link StepLoop} to the group. The loop is given a {@link Clock} backed by the group (see {@link StepLoop.set_clock()}), so it must not be running.
+     *
+     * @param {StepLoop} loop - the loop to add
+     * @returns {boolean} `true` if the loop was added; `false` if it is running or already in the group
+     * @instance
+     */
+    public add(loop: StepLoop): boolean {
+        if (loop.is_running() || this._loops.includes(loop)) return false;
+
+        const order = this._orders.get(loop) ?? this._nextOrder++;
+        this._orders.set(loop, order);
+        loop.set_clock(this._member_clock(order));
+        this._loops.push(loop);
+        return true;
+    }
+
+    /**
+     * Remove a {@link StepLoop} from the group. A loop that is not running is given back the group's own {@link Clock}; a running loop keeps stepping on the group's scheduler, but is no longer affected by {@link LoopGroup.pause()}, {@link LoopGroup.play()} and {@link LoopGroup.finish()}.
+     *
+     * @param {StepLoop} loop - the loop to remove
+     * @returns {boolean} `true` if the loop was removed
+     * @instance
+     */
+    public remove(loop: StepLoop): boolean {
+        if (!this._loops.includes(loop)) return false;
 
-        const now = performance.now();
-        const nextStepTime = this._startTime + (this._step_num * this._interval);
-        const delay = Math.max(0, nextStepTime - now);
+        this._loops = this._loops.filter(other => other !== loop);
+        loop.set_clock(this._clock);
+        return true;
+    }
 
-        this._timeoutId = setTimeout(() => {
-            this._run(performance.now());
-        }, delay);
+    /**
+     * Returns the loops in the group, in the order they were added.
+     *
+     * @returns {StepLoop[]} the loops in the group
+     * @instance
+     */
+    public get_loops(): StepLoop[] {
+        return [...this._loops];
     }
 
-    private _cancel_next_step(): void {
-        if (this._timeoutId && !this._RAFActive) {
-            clearTimeout(this._timeoutId);
-            this._timeoutId = undefined;
-        } else if (this._RAFId && this._RAFActive) {
-            cancelAnimationFrame(this._RAFId);
-            this._RAFId = undefined;
+    /**
+     * Returns the {@link Clock} that drives the group.
+     *
+     * @returns {Clock} the group's clock
+     * @instance
+     */
+    public get_clock(): Clock {
+        return this._clock;
+    }
+
+    /**
+     * Returns `true` if any loop in the group is running.
+     *
+     * @returns {boolean} `true` if any loop is running
+     * @instance
+     */
+    public is_running(): boolean {
+        return this._loops.some(loop => loop.is_running());
+    }
+
+    /**
+     * Start every loop in the group, in the order they were added. See {@link StepLoop.start()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public start(): void {
+        for (const loop of [...this._loops]) {
+            const state = loop.get_state();
+            if (state === 'idle' || state === 'finished') loop.start();
         }
     }
 
-    private _check_for_end_trigger(): boolean {
-        if (this._kill || (this._lifespan && (this._step_num >= this._lifespan))){
-            return true;
-        } else {
-            return false;
+    /**
+     * Pause every loop in the group. See {@link StepLoop.pause()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public pause(): void {
+        for (const loop of [...this._loops]) {
+            if (loop.is_running()) loop.pause();
         }
     }
 
-    private _init(): void {
-        this._kill = false
-        this._initialized = true;
-        this._step_num = 0;
-        try {
-            this.initial();
-        } catch (error) {
-            console.error('Error in initial():', error);
+    /**
+     * Resume every loop in the group, in the order they were added. See {@link StepLoop.play()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public play(): void {
+        for (const loop of [...this._loops]) {
+            if (loop.is_paused()) loop.play();
         }
+    }
+
+    /**
+     * Finish every loop in the group. See {@link StepLoop.finish()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public finish(): void {
+        for (const loop of [...this._loops]) {
+            if (loop.is_running() || loop.is_paused()) loop.finish();
+        }
+    }
 
+    private _member_clock(order: number): Clock {
+        return {
+            now: () => this._clock.now(),
+            set_timeout: (callback: () => void, delay: number) => {
+                const id = this._nextId++;
+                this._timers.push({ id: id, order: order, time: this._clock.now() + Math.max(0, delay), callback: () => callback() });
+                this._schedule_timer();
+                return id;
+            },
+            clear_timeout: (handle: unknown) => {
+                this._timers = this._timers.filter(timer => timer.id !== handle);
+                this._schedule_timer();
+            },
+            has_frames: () => this._clock.has_frames(),
+            watch_visibility: this._clock.watch_visibility?.bind(this._clock),
+            request_frame: (callback: (timestamp: number) => void) => {
+                const id = this._nextId++;
+                this._frames.push({ id: id, order: order, time: 0, callback: callback });
+                this._schedule_frame();
+                return id;
+            },
+            cancel_frame: (handle: unknown) => {
+                this._frames = this._frames.filter(frame => frame.id !== handle);
+                if (this._frames.length === 0 && this._frameId !== undefined) {
+                    this._clock.cancel_frame(this._frameId);
+                    this._frameId = undefined;
+                }
+            },
+        };
     }
 
-    private _run(timestamp: number): void {
-        if (this._running) {
-            if (this._check_for_end_trigger()) {
-                this._term();
-                return;
+    private _schedule_timer(): void {
+        const next = this._next_timer();
+        if (!next) {
+            if (this._timeoutId !== undefined) {
+                this._clock.clear_timeout(this._timeoutId);
+                this._timeoutId = undefined;
+                this._timeoutTime = undefined;
             }
+            return;
+        }
+        if (this._timeoutId !== undefined && this._timeoutTime !== undefined && this._timeoutTime <= next.time) return;
 
-            this.background().catch(error => {
-                console.error('Error in background():', error);
-            });
+        if (this._timeoutId !== undefined) {
+            this._clock.clear_timeout(this._timeoutId);
+        }
+        this._timeoutTime = next.time;
+        this._timeoutId = this._clock.set_timeout(() => {
+            this._timeoutId = undefined;
+            this._timeoutTime = undefined;
+            this._fire_timers();
+        }, Math.max(0, next.time - this._clock.now()));
+    }
 
-            try {
-                this.before();
-            } catch (error) {
-                console.error('Error in before():', error);
+    private _next_timer(): GroupCallback | undefined {
+        let next: GroupCallback | undefined;
+        for (const timer of this._timers) {
+            if (!next || compare_group_callbacks(timer, next) < 0) {
+                next = timer;
             }
+        }
+        return next;
+    }
 
-            try {
-                this.step();
-            } catch (error) {
-                console.error('Error in step():', error);
+    private _fire_timers(): void {
+        // Timers requested while firing wait for the next tick, even when already due, so a loop that fell behind catches up by its own catch-up policy rather than running every missed step here
+        const now = this._clock.now() + GROUP_EPSILON;
+        const due = this._timers.filter(timer => timer.time <= now).sort(compare_group_callbacks);
+        for (const timer of due) {
+            if (!this._timers.includes(timer)) continue;
+
+            this._timers = this._timers.filter(other => other !== timer);
+            timer.callback(this._clock.now());
+        }
+        this._schedule_timer();
+    }
+
+    private _schedule_frame(): void {
+        if (this._frameId !== undefined) return;
+
+        this._frameId = this._clock.request_frame((timestamp) => {
+            this._frameId = undefined;
+            const frames = [...this._frames].sort(compare_group_callbacks);
+            this._frames = [];
+            for (const frame of frames) {
+                frame.callback(timestamp);
             }
+        });
+    }
+}
+
+function compare_group_callbacks(a: GroupCallback, b: GroupCallback): number {
+    if (Math.abs(a.time - b.time) > GROUP_EPSILON) return a.time - b.time;
+    return a.order - b.order || a.id - b.id;
+}
+
+/**
+ * The minimal interface of a message port that a {@link StepLoop} can be controlled over: Node's `worker_threads` `parentPort`, `Worker` and `MessagePort`, or a Web Worker, its `self` scope and a `MessagePort`. Only {@link MessagePortLike.postMessage()} is required; messages are received with `on("message")` when the port has it, or with `addEventListener("message")` otherwise.
+ *
+ * @interface
+ */
+export interface MessagePortLike {
+    postMessage(message: unknown): void;
+    on?(event: 'message', listener: (message: unknown) => void): unknown;
+    off?(event: 'message', listener: (message: unknown) => void): unknown;
+    addEventListener?(type: 'message', listener: (event: { data: unknown }) => void): unknown;
+    removeEventListener?(type: 'message', listener: (event: { data: unknown }) => void): unknown;
+    start?(): void;
+}
+
+/**
+ * The commands a {@link StepLoopProxy} sends to a loop hosted with {@link host_loop()}. Each command calls the {@link StepLoop} method of the same name.
+ */
+export type StepLoopCommand =
+    | { type: 'start' }
+    | { type: 'pause' }
+    | { type: 'play' }
+    | { type: 'finish' }
+    | { type: 'set_sps', sps: number }
+    | { type: 'set_lifespan', steps: number | undefined };
+
+/**
+ * The status of a hosted {@link StepLoop}, reported by {@link host_loop()} and cached by a {@link StepLoopProxy}.
+ *
+ * @interface
+ */
+export interface StepLoopStatus {
+    /** the current step of the loop */
+    readonly step: number;
+    /** the steps-per-second of the loop */
+    readonly sps: number;
+    /** the lifespan of the loop (in steps) */
+    readonly lifespan: number | undefined;
+    /** the lifecycle state of the loop */
+    readonly state: StepLoopState;
+    /** the loop time that has passed since the first step, in milliseconds */
+    readonly elapsed_ms: number;
+}
+
+/**
+ * A {@link StepLoopErrorRecord} that can be sent between threads: the error is replaced by its message.
+ *
+ * @interface
+ */
+export interface StepLoopErrorReport {
+    /** the message of the error, or the error converted to a string */
+    readonly message: string;
+    /** the stage of the loop the error was thrown in */
+    readonly stage: StepLoopStage;
+    /** the step the error was thrown on */
+    readonly step: number;
+    /** the time the error was thrown at, according to the worker's clock */
+    readonly time: number;
+}
+
+/**
+ * The events a {@link StepLoopProxy} receives from a loop hosted with {@link host_loop()}, mapped to the arguments their listeners receive. Lifecycle events mirror the {@link StepLoopEvents} of the same name; per-step events are not streamed, use `status` instead.
+ *
+ * @interface
+ */
+export interface StepLoopProxyEvents {
+    /** emitted after {@link StepLoop.initial()} */
+    initial: [];
+    /** emitted after {@link StepLoop.final()} */
+    final: [reason: StepLoopEndReason];
+    /** emitted after {@link StepLoop.on_pause()} */
+    pause: [];
+    /** emitted after {@link StepLoop.on_play()} */
+    play: [];
+    /** emitted after {@link StepLoop.on_state_change()} */
+    state_change: [state: StepLoopState, previous: StepLoopState];
+    /** emitted after {@link StepLoop.on_sps_change()} */
+    sps_change: [sps: number, previous: number];
+    /** emitted after {@link StepLoop.on_error()} */
+    error: [report: StepLoopErrorReport];
+    /** emitted when the status of the loop is reported (see {@link HostLoopOptions.status_interval}) */
+    status: [status: StepLoopStatus];
+    /** emitted when the timing statistics of the loop are reported (see {@link HostLoopOptions.stats_interval}) */
+    stats: [stats: StepLoopStats];
+}
+
+/**
+ * The messages a loop hosted with {@link host_loop()} sends to its {@link StepLoopProxy}.
+ */
+export type StepLoopReport = {
+    [K in keyof StepLoopProxyEvents]: { type: 'event', event: K, args: StepLoopProxyEvents[K] }
+}[keyof StepLoopProxyEvents];
+
+/**
+ * Options for {@link host_loop()}.
+ *
+ * @interface
+ */
+export interface HostLoopOptions {
+    /** the number of steps between status reports, in addition to the reports sent when the state, steps-per-second or lifespan change; default value is `10` */
+    status_interval?: number;
+    /** the number of steps between timing statistics reports; default value is `60` */
+    stats_interval?: number;
+}
+
+type ProxyListener<K extends keyof StepLoopProxyEvents> = (...args: StepLoopProxyEvents[K]) => void;
+
+type ProxyListenerMap = { [K in keyof StepLoopProxyEvents]?: ProxyListener<K>[] };
+
+const STEPLOOP_COMMANDS = ['start', 'pause', 'play', 'finish', 'set_sps', 'set_lifespan'] as const;
+
+function listen(port: MessagePortLike, listener: (message: unknown) => void): () => void {
+    if (port.on) {
+        port.on('message', listener);
+        return () => { port.off?.('message', listener); };
+    }
+    const handler = (event: { data: unknown }) => listener(event.data);
+    port.addEventListener?.('message', handler);
+    port.start?.();
+    return () => { port.removeEventListener?.('message', handler); };
+}
+
+function run_command(loop: StepLoop, command: StepLoopCommand): void {
+    switch (command.type) {
+        case 'start':
+            loop.start();
+            break;
+        case 'pause':
+            loop.pause();
+            break;
+        case 'play':
+            loop.play();
+            break;
+        case 'finish':
+            loop.finish();
+            break;
+        case 'set_sps':
+            loop.set_sps(command.sps);
+            break;
+        case 'set_lifespan':
+            loop.set_lifespan(command.steps);
+            break;
+    }
+}
+
+/**
+ * Host a {@link StepLoop} on a message port, typically inside a worker thread, so a {@link StepLoopProxy} on the other end of the port can control it. Runs the {@link StepLoopCommand}s the proxy sends, and streams lifecycle events, status and timing statistics back as {@link StepLoopReport}s.
+ *
+ * The loop is not started until the proxy calls {@link StepLoopProxy.start()}.
+ *
+ * @param {StepLoop} loop - the loop to host
+ * @param {MessagePortLike} port - the port to the main thread, e.g. `parentPort` in a Node worker or `self` in a Web Worker
+ * @param {HostLoopOptions} options - how often to report status and statistics; default value is `{}`
+ * @returns {Function} a function that stops hosting the loop when called
+ * @example
+ * ```ts
+ * // simulation.worker.ts
+ * import { parentPort } from "node:worker_threads";
+ * import { host_loop } from "steploop";
+ *
+ * host_loop(new Simulation(120), parentPort!);
+ * ```
+ */
+export function host_loop(loop: StepLoop, port: MessagePortLike, options: HostLoopOptions = {}): () => void {
+    const statusInterval = Math.max(1, options.status_interval ?? 10);
+    const statsInterval = Math.max(1, options.stats_interval ?? 60);
+
+    const send = (report: StepLoopReport) => port.postMessage(report);
+    // during a step, the step counter is only incremented after the after stage
+    const status = (step: number = loop.get_step()): StepLoopStatus => ({
+        step: step,
+        sps: loop.get_sps(),
+        lifespan: loop.get_lifespan(),
+        state: loop.get_state(),
+        elapsed_ms: loop.get_elapsed(),
+    });
+    const report_status = (step?: number) => send({ type: 'event', event: 'status', args: [status(step)] });
+    const report_stats = () => send({ type: 'event', event: 'stats', args: [loop.get_stats()] });
+
+    const unsubscribers = [
+        loop.on('initial', () => send({ type: 'event', event: 'initial', args: [] })),
+        loop.on('final', (reason) => {
+            report_status();
+            report_stats();
+            send({ type: 'event', event: 'final', args: [reason] });
+        }),
+        loop.on('pause', () => send({ type: 'event', event: 'pause', args: [] })),
+        loop.on('play', () => send({ type: 'event', event: 'play', args: [] })),
+        loop.on('state_change', (state, previous) => {
+            report_status();
+            send({ type: 'event', event: 'state_change', args: [state, previous] });
+        }),
+        loop.on('sps_change', (sps, previous) => {
+            report_status();
+            send({ type: 'event', event: 'sps_change', args: [sps, previous] });
+        }),
+        loop.on('error', (record) => {
+            const message = record.error instanceof Error ? record.error.message : String(record.error);
+            send({ type: 'event', event: 'error', args: [{ message: message, stage: record.stage, step: record.step, time: record.time }] });
+        }),
+        loop.on('after', (context) => {
+            if ((context.step + 1) % statusInterval === 0) report_status(context.step + 1);
+            if ((context.step + 1) % statsInterval === 0) report_stats();
+        }),
+        listen(port, (message) => {
+            const command = message as StepLoopCommand;
+            if (typeof command !== 'object' || command === null || !STEPLOOP_COMMANDS.includes(command.type)) return;
 
             try {
-                this.after();
+                run_command(loop, command);
             } catch (error) {
-                console.error('Error in after():', error);
+                console.error(`Error in ${command.type}():`, error);
             }
+            if (command.type === 'set_lifespan') report_status();
+        }),
+    ];
 
-            this._step_num++;
-            this._lastStepDuration = timestamp - this._lastStepTime;
-            this._lastStepTime = timestamp;
-            this._request_next_step(timestamp)
+    report_status();
+    return () => {
+        for (const unsubscribe of unsubscribers) {
+            unsubscribe();
         }
+    };
+}
+
+/**
+ * A main-thread stand-in for a {@link StepLoop} hosted with {@link host_loop()} on the other end of a message port, typically in a worker thread. Mirrors the control methods of the {@link StepLoop} by sending {@link StepLoopCommand}s, and mirrors its getters from the last status the hosted loop reported, so they can be read synchronously.
+ *
+ * Commands are applied asynchronously: values such as {@link StepLoopProxy.get_sps()} change once the hosted loop reports its new status. Lifecycle events, status and timing statistics can be listened to with {@link StepLoopProxy.on()}.
+ *
+ * @example
+ * ```ts
+ * import { Worker } from "node:worker_threads";
+ * import { StepLoopProxy } from "steploop";
+ *
+ * const simulation = new StepLoopProxy(new Worker("./simulation.worker.js"));
+ * simulation.on("final", (reason) => console.log(`finished: ${reason}`));
+ * simulation.start();
+ * ```
+ * @class
+ */
+export class StepLoopProxy {
+    private _port: MessagePortLike;
+    private _status: StepLoopStatus = { step: 0, sps: 0, lifespan: undefined, state: 'idle', elapsed_ms: 0 };
+    private _stats: StepLoopStats | undefined;
+    private _listeners: ProxyListenerMap = {};
+    private _unlisten: () => void;
+
+    /**
+     * Create a `StepLoopProxy` for the loop hosted on the other end of a port.
+     * @param {MessagePortLike} port - the port to the hosted loop, e.g. a Node `Worker` or a Web `Worker`
+     */
+    constructor(port: MessagePortLike) {
+        this._port = port;
+        this._unlisten = listen(port, (message) => this._receive(message));
     }
 
-    private _term(): void {
-        this._running = false
-        this._paused = false;
-        this._cancel_next_step();
-        this._kill = true;
+    /**
+     * Start the hosted loop. See {@link StepLoop.start()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public start(): void {
+        this._send({ type: 'start' });
+    }
 
-        try {
-            this.final();
-        } catch (error) {
-            console.error('Error in final():', error);
-        }
+    /**
+     * Pause the hosted loop. See {@link StepLoop.pause()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public pause(): void {
+        this._send({ type: 'pause' });
+    }
 
+    /**
+     * Resume the hosted loop. See {@link StepLoop.play()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public play(): void {
+        this._send({ type: 'play' });
     }
 
-    private _main(): void{
-        this._init();
-        this._run(performance.now());
+    /**
+     * Finish the hosted loop. See {@link StepLoop.finish()}.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public finish(): void {
+        this._send({ type: 'finish' });
+    }
+
+    /**
+     * Set the steps-per-second of the hosted loop. See {@link StepLoop.set_sps()}.
+     *
+     * @param {number} sps - the new steps-per-second
+     * @returns {void} `void`
+     * @instance
+     */
+    public set_sps(sps: number): void {
+        this._send({ type: 'set_sps', sps: sps });
+    }
+
+    /**
+     * Set the lifespan of the hosted loop. See {@link StepLoop.set_lifespan()}.
+     *
+     * @param {number | undefined} steps - the new lifespan; `undefined` for an unlimited lifespan
+     * @returns {void} `void`
+     * @instance
+     */
+    public set_lifespan(steps?: number): void {
+        this._send({ type: 'set_lifespan', steps: steps });
+    }
+
+    /**
+     * Returns the current step of the hosted loop, as of its last status report. See {@link StepLoop.get_step()}.
+     *
+     * @returns {number} the current step number
+     * @instance
+     */
+    public get_step(): number {
+        return this._status.step;
+    }
+
+    /**
+     * Returns the steps-per-second of the hosted loop, as of its last status report; `0` before the first report. See {@link StepLoop.get_sps()}.
+     *
+     * @returns {number} the steps-per-second
+     * @instance
+     */
+    public get_sps(): number {
+        return this._status.sps;
+    }
+
+    /**
+     * Returns the lifespan of the hosted loop, as of its last status report. See {@link StepLoop.get_lifespan()}.
+     *
+     * @returns {number | undefined} the lifespan
+     * @instance
+     */
+    public get_lifespan(): number | undefined {
+        return this._status.lifespan;
+    }
+
+    /**
+     * Returns the lifecycle state of the hosted loop, as of its last status report. See {@link StepLoop.get_state()}.
+     *
+     * @returns {StepLoopState} the state of the loop
+     * @instance
+     */
+    public get_state(): StepLoopState {
+        return this._status.state;
+    }
+
+    /**
+     * Returns the last status reported by the hosted loop.
+     *
+     * @returns {StepLoopStatus} the status of the loop
+     * @instance
+     */
+    public get_status(): StepLoopStatus {
+        return this._status;
+    }
+
+    /**
+     * Returns the last timing statistics reported by the hosted loop (see {@link HostLoopOptions.stats_interval}). See {@link StepLoop.get_stats()}.
+     *
+     * @returns {StepLoopStats | undefined} the statistics; `undefined` before the first report
+     * @instance
+     */
+    public get_stats(): StepLoopStats | undefined {
+        return this._stats;
+    }
+
+    /**
+     * Add a listener to one of the {@link StepLoopProxyEvents} streamed from the hosted loop.
+     *
+     * @param {string} event - the name of the event to listen to
+     * @param {Function} listener - the function to call when the event is received
+     * @returns {Function} a function that removes the listener when called
+     * @example
+     * ```ts
+     * simulation.on("status", (status) => {
+     *     console.log(`step: ${status.step}`);
+     * });
+     * ```
+     * @instance
+     */
+    public on<K extends keyof StepLoopProxyEvents>(event: K, listener: ProxyListener<K>): () => void {
+        // Narrowed to the one key, as writing through a generic key of the whole map doesn't type-check
+        const listeners: { [P in K]?: ProxyListener<P>[] } = this._listeners;
+        listeners[event] = [...(listeners[event] ?? []), listener];
+        return () => {
+            listeners[event] = (listeners[event] ?? []).filter(entry => entry !== listener);
+        };
+    }
+
+    /**
+     * Stop listening to the port. The hosted loop keeps running; the proxy no longer receives its events.
+     *
+     * @returns {void} `void`
+     * @instance
+     */
+    public disconnect(): void {
+        this._unlisten();
+    }
+
+    private _send(command: StepLoopCommand): void {
+        this._port.postMessage(command);
+    }
+
+    private _receive(message: unknown): void {
+        const report = message as StepLoopReport;
+        if (typeof report !== 'object' || report === null || report.type !== 'event') return;
+
+        if (report.event === 'status') this._status = report.args[0];
+        if (report.event === 'stats') this._stats = report.args[0];
+        this._dispatch(report.event, report.args);
+    }
+
+    private _dispatch<K extends keyof StepLoopProxyEvents>(event: K, args: StepLoopProxyEvents[K]): void {
+        const listeners: ProxyListener<K>[] = this._listeners[event] ?? [];
+        for (const listener of listeners) {
+            try {
+                listener(...args);
+            } catch (error) {
+                console.error(`Error in ${event} listener:`, error);
+            }
+        }
     }
 }
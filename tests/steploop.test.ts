@@ -1,5 +1,5 @@
-import { StepLoop } from '../steploop';
-import { describe, it, expect, beforeEach } from 'vitest';
+import { StepLoop, ManualClock, LoopGroup, StepLoopProxy, PreciseClock, create_loop, host_loop, type MessagePortLike, type StepContext, type StepLoopStage, type StepLoopOptions, type StepLoopErrorRecord, type StepLoopState, type StepLoopEndReason } from '../steploop';
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach, vi } from 'vitest';
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -272,3 +272,2486 @@ describe('StepLoop', () => {
         expect(steps_executed.length).toBe(lifespan);
     }, 0);
 });
+
+describe('ManualClock', () => {
+    it('should only advance when told to', () => {
+        const clock = new ManualClock(100);
+        expect(clock.now()).toBe(100);
+        expect(clock.advance(50)).toBe(150);
+        expect(clock.now()).toBe(150);
+    });
+
+    it('should run callbacks in order as time advances', () => {
+        const clock = new ManualClock();
+        const fired: string[] = [];
+        clock.set_timeout(() => fired.push('b'), 20);
+        clock.set_timeout(() => fired.push('a'), 10);
+        const cancelled = clock.set_timeout(() => fired.push('c'), 15);
+        clock.clear_timeout(cancelled);
+
+        clock.advance(15);
+        expect(fired).toEqual(['a']);
+        clock.advance(5);
+        expect(fired).toEqual(['a', 'b']);
+        expect(clock.pending()).toBe(0);
+    });
+
+    it('should drive a loop deterministically', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override initial() {
+                calls.push('initial');
+            }
+            override step() {
+                calls.push(`step ${this.get_step()}`);
+            }
+            override final() {
+                calls.push('final');
+            }
+        }
+
+        const loop = new TestLoop(10, 3, false, { clock: clock });
+        loop.start();
+        expect(calls).toEqual(['initial', 'step 0']);
+
+        clock.advance(99);
+        expect(calls).toEqual(['initial', 'step 0']);
+
+        clock.advance(1);
+        expect(calls).toEqual(['initial', 'step 0', 'step 1']);
+
+        clock.advance(1000);
+        expect(calls).toEqual(['initial', 'step 0', 'step 1', 'step 2', 'final']);
+        expect(loop.is_running()).toBe(false);
+        expect(clock.pending()).toBe(0);
+    });
+
+    it('should advance a loop by a number of steps', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(60, undefined, false, { clock: clock });
+        loop.start();
+
+        expect(clock.advance_steps(loop, 10)).toBe(10);
+        expect(loop.get_step()).toBe(11);
+        expect(clock.now()).toBeCloseTo(10 * 1000 / 60);
+    });
+
+    it('should simulate frames for RAF loops', () => {
+        const clock = new ManualClock(0, 10);
+        const loop = new StepLoop(60, undefined, true, { clock: clock });
+        loop.start();
+        clock.advance(50);
+        expect(loop.get_step()).toBe(6);
+        loop.pause();
+        expect(clock.pending()).toBe(0);
+        clock.advance(50);
+        expect(loop.get_step()).toBe(6);
+    });
+
+    it('should not schedule steps while paused', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(200);
+        loop.pause();
+        const step_on_pause = loop.get_step();
+        expect(clock.pending()).toBe(0);
+        clock.advance(1000);
+        expect(loop.get_step()).toBe(step_on_pause);
+        loop.play();
+        clock.advance(200);
+        expect(loop.get_step()).toBe(step_on_pause + 3);
+        loop.finish();
+    });
+});
+
+describe('Fixed-step mode', () => {
+    const run_fixed = (sps: number, frames: number) => {
+        const clock = new ManualClock(0, 10);
+        const rendered: { step: number, alpha: number }[] = [];
+
+        class FixedLoop extends StepLoop {
+            override render(alpha: number) {
+                rendered.push({ step: this.get_step(), alpha: alpha });
+            }
+        }
+
+        const loop = new FixedLoop(sps, undefined, true, { clock: clock, fixed_step: true });
+        loop.start();
+        clock.advance(frames * 10);
+        loop.finish();
+        return { loop, rendered };
+    };
+
+    it('should run steps at the step rate regardless of the frame rate', () => {
+        // 100 frames-per-second
+        expect(run_fixed(50, 20).loop.get_step()).toBe(11);
+        expect(run_fixed(100, 20).loop.get_step()).toBe(21);
+        expect(run_fixed(400, 20).loop.get_step()).toBe(81);
+    });
+
+    it('should run zero or several steps per frame', () => {
+        const slow = run_fixed(50, 4).rendered.map(frame => frame.step);
+        expect(slow).toEqual([1, 1, 2, 2, 3]);
+
+        const fast = run_fixed(400, 2).rendered.map(frame => frame.step);
+        expect(fast).toEqual([1, 5, 9]);
+    });
+
+    it('should pass the interpolation alpha to render', () => {
+        const { rendered } = run_fixed(40, 5);
+        expect(rendered.map(frame => frame.alpha)).toEqual([0, 0.4, 0.8, 0.2, 0.6, 0]);
+    });
+
+    it('should not call render outside of fixed-step mode', () => {
+        const clock = new ManualClock(0, 10);
+        let renders = 0;
+
+        class TestLoop extends StepLoop {
+            override render() {
+                renders++;
+            }
+        }
+
+        const loop = new TestLoop(60, undefined, true, { clock: clock });
+        loop.start();
+        clock.advance(100);
+        loop.finish();
+        expect(renders).toBe(0);
+        expect(loop.set_fixed_step(true)).toBe(true);
+    });
+
+    it('should use the step scheduler when frames are unavailable', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(20, undefined, false, { clock: clock, fixed_step: true });
+        loop.start();
+        clock.advance(500);
+        expect(loop.get_step()).toBe(11);
+        loop.finish();
+    });
+});
+
+describe('StepContext', () => {
+    it('should pass timing information to each hook', () => {
+        const clock = new ManualClock();
+        const contexts: StepContext[] = [];
+        const stages: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override before(context: StepContext) {
+                stages.push(`before ${context.step}`);
+            }
+            override step(context: StepContext) {
+                contexts.push(context);
+            }
+            override after(context: StepContext) {
+                stages.push(`after ${context.step}`);
+            }
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(200);
+        loop.finish();
+
+        expect(stages).toEqual(['before 0', 'after 0', 'before 1', 'after 1', 'before 2', 'after 2']);
+        expect(contexts.map(context => context.step)).toEqual([0, 1, 2]);
+        expect(contexts.map(context => context.delta_ms)).toEqual([0, 100, 100]);
+        expect(contexts.map(context => context.delta_s)).toEqual([0, 0.1, 0.1]);
+        expect(contexts.map(context => context.elapsed_ms)).toEqual([0, 100, 200]);
+        expect(contexts.map(context => context.scheduled_time)).toEqual([0, 100, 200]);
+        expect(contexts.map(context => context.lateness)).toEqual([0, 0, 0]);
+    });
+
+    it('should report lateness when a step executes after its deadline', () => {
+        const clock = new ManualClock(0, 30);
+        const contexts: StepContext[] = [];
+
+        class TestLoop extends StepLoop {
+            override step(context: StepContext) {
+                contexts.push(context);
+            }
+        }
+
+        const loop = new TestLoop(50, undefined, true, { clock: clock });
+        loop.start();
+        clock.advance(30);
+        loop.finish();
+
+        expect(contexts[1]?.scheduled_time).toBe(20);
+        expect(contexts[1]?.actual_time).toBe(30);
+        expect(contexts[1]?.lateness).toBe(10);
+        expect(contexts[1]?.delta_ms).toBe(30);
+    });
+
+    it('should not count paused time as elapsed', () => {
+        const clock = new ManualClock();
+        const contexts: StepContext[] = [];
+
+        class TestLoop extends StepLoop {
+            override step(context: StepContext) {
+                contexts.push(context);
+            }
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(150);
+        loop.pause();
+        clock.advance(1000);
+        loop.play();
+        loop.finish();
+
+        expect(contexts.map(context => context.elapsed_ms)).toEqual([0, 100, 150]);
+    });
+
+    it('should use a fixed delta in fixed-step mode', () => {
+        const clock = new ManualClock(0, 25);
+        const deltas: number[] = [];
+
+        class TestLoop extends StepLoop {
+            override step(context: StepContext) {
+                deltas.push(context.delta_ms);
+            }
+        }
+
+        const loop = new TestLoop(100, undefined, true, { clock: clock, fixed_step: true });
+        loop.start();
+        clock.advance(25);
+        loop.finish();
+
+        expect(deltas).toEqual([10, 10, 10]);
+    });
+});
+
+describe('Event listeners', () => {
+    it('should call listeners after the overridable methods', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override initial() {
+                calls.push('method initial');
+            }
+            override step() {
+                calls.push('method step');
+            }
+        }
+
+        const loop = new TestLoop(10, 1, false, { clock: clock });
+        loop.on('initial', () => { calls.push('listener initial'); });
+        loop.on('step', (context) => { calls.push(`listener step ${context.step}`); });
+        loop.on('final', () => { calls.push('listener final'); });
+        loop.start();
+        clock.advance(100);
+
+        expect(calls).toEqual(['method initial', 'listener initial', 'method step', 'listener step 0', 'listener final']);
+    });
+
+    it('should order listeners by priority, then by insertion', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+
+        loop.on('step', () => { calls.push('a'); });
+        loop.on('step', () => { calls.push('b'); }, 10);
+        loop.on('step', () => { calls.push('c'); });
+        loop.on('step', () => { calls.push('d'); }, -5);
+        loop.on('step', () => { calls.push('e'); }, 10);
+        loop.start();
+        loop.finish();
+
+        expect(calls).toEqual(['b', 'e', 'a', 'c', 'd']);
+    });
+
+    it('should remove listeners with once, off and unsubscribe handles', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        let once_calls = 0;
+        let off_calls = 0;
+        let handle_calls = 0;
+
+        const off_listener = () => { off_calls++; };
+        loop.once('step', () => { once_calls++; });
+        loop.on('step', off_listener);
+        const unsubscribe = loop.on('step', () => { handle_calls++; });
+
+        loop.start();
+        expect(loop.off('step', off_listener)).toBe(true);
+        expect(loop.off('step', off_listener)).toBe(false);
+        unsubscribe();
+        clock.advance(300);
+        loop.finish();
+
+        expect(once_calls).toBe(1);
+        expect(off_calls).toBe(1);
+        expect(handle_calls).toBe(1);
+        expect(loop.get_step()).toBe(4);
+    });
+
+    it('should emit pause and play events', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.on('pause', () => { calls.push('pause'); });
+        loop.on('play', () => { calls.push('play'); });
+        loop.start();
+        loop.pause();
+        loop.play();
+        loop.finish();
+
+        expect(calls).toEqual(['pause', 'play']);
+    });
+
+    it('should keep calling listeners when one throws', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        let calls = 0;
+        loop.on('step', () => { throw new Error('Test crash in listener'); });
+        loop.on('step', () => { calls++; });
+        loop.start();
+        loop.finish();
+
+        expect(calls).toBe(1);
+    });
+});
+
+describe('create_loop', () => {
+    it('should build a loop from a plain object of hooks', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        const loop = create_loop({
+            initial() {
+                calls.push('initial');
+            },
+            step(context) {
+                calls.push(`step ${this.get_step()} ${context.step}`);
+            },
+            final() {
+                calls.push('final');
+            },
+        }, 10, 2, false, { clock: clock });
+
+        expect(loop).toBeInstanceOf(StepLoop);
+        loop.start();
+        clock.advance(200);
+
+        expect(calls).toEqual(['initial', 'step 0 0', 'step 1 1', 'final']);
+        expect(loop.is_running()).toBe(false);
+    });
+});
+
+describe('Error handling', () => {
+    class FailingLoop extends StepLoop {
+        calls: string[] = [];
+        fail_on: number[] = [];
+        reported: string[] = [];
+
+        override before() {
+            this.calls.push(`before ${this.get_step()}`);
+            if (this.fail_on.includes(this.get_step())) {
+                throw new Error('Test crash in before()');
+            }
+        }
+        override step() {
+            this.calls.push(`step ${this.get_step()}`);
+        }
+        override after() {
+            this.calls.push(`after ${this.get_step()}`);
+        }
+        override on_error(error: unknown, stage: StepLoopStage, step: number) {
+            this.reported.push(`${stage} ${step}`);
+        }
+    }
+
+    const make_loop = (options: StepLoopOptions, fail_on: number[]) => {
+        const clock = new ManualClock();
+        const loop = new FailingLoop(10, undefined, false, { clock: clock, ...options });
+        loop.fail_on = fail_on;
+        return { clock, loop };
+    };
+
+    it('should report errors to on_error and keep records', () => {
+        const { clock, loop } = make_loop({}, [1]);
+        loop.start();
+        clock.advance(200);
+        loop.finish();
+
+        expect(loop.reported).toEqual(['before 1']);
+        const errors = loop.get_errors();
+        expect(errors.length).toBe(1);
+        expect(errors[0]?.stage).toBe('before');
+        expect(errors[0]?.step).toBe(1);
+        expect(errors[0]?.time).toBe(100);
+        expect((errors[0]?.error as Error).message).toBe('Test crash in before()');
+        expect(loop.calls).toContain('step 1');
+
+        loop.clear_errors();
+        expect(loop.get_errors()).toEqual([]);
+    });
+
+    it('should skip the rest of the step under the skip_step policy', () => {
+        const { clock, loop } = make_loop({ error_policy: 'skip_step' }, [1]);
+        loop.start();
+        clock.advance(200);
+        loop.finish();
+
+        expect(loop.calls).toEqual(['before 0', 'step 0', 'after 0', 'before 1', 'before 2', 'step 2', 'after 2']);
+        expect(loop.get_step()).toBe(3);
+    });
+
+    it('should pause the loop under the pause policy', () => {
+        const { clock, loop } = make_loop({ error_policy: 'pause' }, [1]);
+        loop.start();
+        clock.advance(500);
+
+        expect(loop.is_paused()).toBe(true);
+        expect(loop.get_step()).toBe(2);
+        expect(loop.calls).toEqual(['before 0', 'step 0', 'after 0', 'before 1']);
+        loop.finish();
+    });
+
+    it('should finish after consecutive failures under the finish policy', () => {
+        let finished_on: number | undefined;
+        const { clock, loop } = make_loop({ error_policy: 'finish', max_consecutive_errors: 3 }, [1, 2, 4, 5, 6, 7]);
+        loop.on('final', () => { finished_on = loop.get_step(); });
+        loop.start();
+        clock.advance(1000);
+
+        expect(loop.is_running()).toBe(false);
+        expect(finished_on).toBe(6);
+        expect(loop.reported).toEqual(['before 1', 'before 2', 'before 4', 'before 5', 'before 6']);
+    });
+
+    it('should report rejected background promises', async () => {
+        const clock = new ManualClock();
+        const errors: StepLoopErrorRecord[] = [];
+
+        class TestLoop extends StepLoop {
+            override async background() {
+                throw new Error('Test crash in background()');
+            }
+            override on_error() {}
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock });
+        loop.on('error', (record) => { errors.push(record); });
+        loop.start();
+        loop.finish();
+        await Promise.resolve();
+
+        expect(errors.length).toBe(1);
+        expect(errors[0]?.stage).toBe('background');
+    });
+
+    it('should tag errors with the step that threw them', async () => {
+        const clock = new ManualClock();
+        const errors: string[] = [];
+        const settle: Array<(error?: Error) => void> = [];
+
+        class TestLoop extends StepLoop {
+            override async background(context: StepContext) {
+                if (context.step !== 0) return;
+                await sleep(0);
+                throw new Error('Test crash in background()');
+            }
+            override step(context: StepContext) {
+                return new Promise<void>((resolve, reject) => {
+                    settle[context.step] = (error) => error ? reject(error) : resolve();
+                });
+            }
+            override on_error() {}
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock, overrun_policy: 'overlap' });
+        loop.on('error', (record) => { errors.push(`${record.stage} ${record.step}`); });
+        loop.start();
+        clock.advance(100);
+        settle[1]!(new Error('Test crash in step()'));
+        settle[0]!();
+        await sleep(0);
+        await sleep(0);
+        loop.finish();
+
+        expect(loop.get_step()).toBe(2);
+        expect(errors).toEqual(['step 1', 'background 0']);
+    });
+
+    it('should limit the number of error records', () => {
+        const { clock, loop } = make_loop({ max_error_records: 2 }, [0, 1, 2, 3]);
+        loop.start();
+        clock.advance(300);
+        loop.finish();
+
+        expect(loop.get_errors().map(record => record.step)).toEqual([2, 3]);
+    });
+});
+
+describe('Async steps', () => {
+    const flush = () => sleep(0);
+
+    class AsyncLoop extends StepLoop {
+        started: number[] = [];
+        resolvers: (() => void)[] = [];
+
+        override step(context: StepContext) {
+            this.started.push(context.step);
+            return new Promise<void>(resolve => this.resolvers.push(resolve));
+        }
+
+        resolve_all() {
+            const resolvers = this.resolvers;
+            this.resolvers = [];
+            resolvers.forEach(resolve => resolve());
+        }
+    }
+
+    it('should keep synchronous steps synchronous', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(100);
+        expect(loop.get_step()).toBe(2);
+        loop.finish();
+    });
+
+    it('should wait for async hooks before moving on', async () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override async before() {
+                await flush();
+                calls.push('before');
+            }
+            override async step() {
+                calls.push('step');
+            }
+            override after() {
+                calls.push('after');
+            }
+        }
+
+        const loop = new TestLoop(10, 1, false, { clock: clock });
+        loop.start();
+        expect(loop.get_step()).toBe(0);
+        await flush();
+        expect(calls).toEqual(['before', 'step', 'after']);
+        expect(loop.get_step()).toBe(1);
+        clock.advance(100);
+        expect(loop.is_running()).toBe(false);
+    });
+
+    it('should drop the rest of a pending step when the loop is finished', async () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = new AsyncLoop(10, undefined, false, { clock: clock, adaptive_sps: { min_sps: 5, overrun_threshold: 1 } });
+        loop.on('after', () => { calls.push('after'); });
+        loop.on('overrun', () => { calls.push('overrun'); });
+        loop.on('final', (reason) => { calls.push(`final ${reason}`); });
+        loop.start();
+        clock.advance(250);
+        loop.finish();
+
+        loop.resolve_all();
+        await flush();
+        expect(calls).toEqual(['final finish']);
+        expect(loop.get_step()).toBe(0);
+        expect(loop.get_sps()).toBe(10);
+    });
+
+    it('should catch up on missed steps under the wait policy', async () => {
+        const clock = new ManualClock();
+        const loop = new AsyncLoop(10, undefined, false, { clock: clock, overrun_policy: 'wait' });
+        loop.start();
+        clock.advance(350);
+        expect(loop.started).toEqual([0]);
+
+        loop.resolve_all();
+        await flush();
+        clock.advance(0);
+        expect(loop.started).toEqual([0, 1]);
+        for (let i = 0; i < 3; i++) {
+            loop.resolve_all();
+            await flush();
+            clock.advance(0);
+        }
+        expect(loop.started).toEqual([0, 1, 2, 3]);
+        expect(clock.now()).toBe(350);
+        clock.advance(50);
+        expect(loop.started).toEqual([0, 1, 2, 3, 4]);
+        loop.finish();
+    });
+
+    it('should skip missed steps under the skip policy', async () => {
+        const clock = new ManualClock();
+        const loop = new AsyncLoop(10, undefined, false, { clock: clock, overrun_policy: 'skip' });
+        loop.start();
+        clock.advance(350);
+
+        loop.resolve_all();
+        await flush();
+        expect(loop.started).toEqual([0]);
+        clock.advance(49);
+        expect(loop.started).toEqual([0]);
+        clock.advance(1);
+        expect(loop.started).toEqual([0, 1]);
+        loop.finish();
+    });
+
+    it('should overlap steps up to the concurrency limit under the overlap policy', async () => {
+        const clock = new ManualClock();
+        const loop = new AsyncLoop(10, undefined, false, { clock: clock, overrun_policy: 'overlap', max_concurrent_steps: 3 });
+        loop.start();
+        clock.advance(500);
+        expect(loop.started).toEqual([0, 1, 2]);
+        expect(loop.get_step()).toBe(0);
+
+        loop.resolve_all();
+        await flush();
+        clock.advance(0);
+        expect(loop.get_step()).toBe(3);
+        expect(loop.started).toEqual([0, 1, 2, 3, 4, 5]);
+        loop.finish();
+    });
+
+    it('should let pending steps resolve before the termination stage', async () => {
+        const clock = new ManualClock();
+        let final_step: number | undefined;
+        const loop = new AsyncLoop(10, 2, false, { clock: clock });
+        loop.on('final', () => { final_step = loop.get_step(); });
+        loop.start();
+        loop.resolve_all();
+        await flush();
+        clock.advance(100);
+        expect(loop.started).toEqual([0, 1]);
+        clock.advance(100);
+        expect(final_step).toBeUndefined();
+
+        loop.resolve_all();
+        await flush();
+        clock.advance(0);
+        expect(final_step).toBe(2);
+        expect(loop.is_running()).toBe(false);
+    });
+
+    it('should report rejected async hooks', async () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override async step() {
+                throw new Error('Test crash in step()');
+            }
+            override after() {
+                calls.push('after');
+            }
+            override on_error(error: unknown, stage: StepLoopStage) {
+                calls.push(`error ${stage}`);
+            }
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock, error_policy: 'skip_step' });
+        loop.start();
+        await flush();
+        expect(calls).toEqual(['error step']);
+        expect(loop.get_step()).toBe(1);
+        loop.finish();
+    });
+});
+
+describe('Background tasks', () => {
+    const flush = () => sleep(0);
+
+    class BackgroundLoop extends StepLoop {
+        signals: AbortSignal[] = [];
+        resolvers: (() => void)[] = [];
+        calls: string[] = [];
+
+        override background(context: StepContext, signal: AbortSignal) {
+            this.signals.push(signal);
+            this.calls.push(`background ${context.step}`);
+            return new Promise<void>(resolve => this.resolvers.push(resolve));
+        }
+        override final() {
+            this.calls.push('final');
+        }
+    }
+
+    it('should track running background tasks', async () => {
+        const clock = new ManualClock();
+        const loop = new BackgroundLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(200);
+        expect(loop.get_background_tasks()).toBe(3);
+
+        loop.resolvers.forEach(resolve => resolve());
+        await flush();
+        expect(loop.get_background_tasks()).toBe(0);
+        loop.finish();
+    });
+
+    it('should abort the signal on pause and finish', () => {
+        const clock = new ManualClock();
+        const loop = new BackgroundLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        loop.pause();
+        expect(loop.signals[0]?.aborted).toBe(true);
+
+        loop.play();
+        expect(loop.signals[1]?.aborted).toBe(false);
+        loop.finish();
+        expect(loop.signals[1]?.aborted).toBe(true);
+    });
+
+    it('should skip the background stage at the concurrency limit', () => {
+        const clock = new ManualClock();
+        const loop = new BackgroundLoop(10, undefined, false, { clock: clock, max_background_tasks: 2 });
+        loop.start();
+        clock.advance(300);
+        loop.finish();
+
+        expect(loop.calls).toEqual(['background 0', 'background 1', 'final']);
+        expect(loop.get_step()).toBe(4);
+    });
+
+    it('should wait for background tasks before the termination stage', async () => {
+        const clock = new ManualClock();
+        const loop = new BackgroundLoop(10, undefined, false, { clock: clock, await_background: true });
+        loop.start();
+        loop.finish();
+        expect(loop.is_running()).toBe(false);
+        expect(loop.calls).toEqual(['background 0']);
+
+        loop.resolvers.forEach(resolve => resolve());
+        await flush();
+        expect(loop.calls).toEqual(['background 0', 'final']);
+    });
+
+    it('should not report aborted background tasks as errors', async () => {
+        const clock = new ManualClock();
+
+        class TestLoop extends StepLoop {
+            override background(context: StepContext, signal: AbortSignal) {
+                return new Promise<void>((resolve, reject) => {
+                    signal.addEventListener('abort', () => reject(signal.reason));
+                });
+            }
+        }
+
+        const loop = new TestLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        loop.finish();
+        await flush();
+        expect(loop.get_errors()).toEqual([]);
+        expect(loop.get_background_tasks()).toBe(0);
+    });
+});
+
+describe('Timing statistics', () => {
+    it('should return empty statistics before the loop runs', () => {
+        const stats = new StepLoop().get_stats();
+        expect(stats.samples).toBe(0);
+        expect(stats.mean_sps).toBe(0);
+        expect(stats.frame_time_p99).toBe(0);
+        expect(stats.overruns).toBe(0);
+    });
+
+    it('should compute rolling statistics over the window', () => {
+        const clock = new ManualClock(0, 10);
+        const loop = new StepLoop(60, undefined, true, { clock: clock, stats_window: 4 });
+        loop.start();
+        clock.advance(100);
+
+        let stats = loop.get_stats();
+        expect(stats.samples).toBe(4);
+        expect(stats.mean_sps).toBeCloseTo(100);
+        expect(stats.min_sps).toBeCloseTo(100);
+        expect(stats.max_sps).toBeCloseTo(100);
+        expect(stats.frame_time_p50).toBeCloseTo(10);
+        expect(stats.jitter).toBeCloseTo(0);
+
+        loop.pause();
+        clock.advance(5);
+        loop.play();
+        clock.advance(25);
+        loop.finish();
+
+        // Paused time is not counted, so the frame after play is short
+        stats = loop.get_stats();
+        expect(stats.min_sps).toBeCloseTo(100);
+        expect(stats.max_sps).toBeCloseTo(200);
+        expect(stats.mean_sps).toBeCloseTo(1000 / 8.75);
+        expect(stats.frame_time_p50).toBeCloseTo(10);
+        expect(stats.frame_time_p99).toBeCloseTo(10);
+        expect(stats.jitter).toBeCloseTo(Math.sqrt(4.6875));
+    });
+
+    it('should not count paused time before a single step as a frame', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        clock.advance(300);
+        loop.pause();
+        clock.advance(10000);
+        loop.step_once();
+        loop.play();
+        clock.advance(200);
+        loop.finish();
+
+        expect(loop.get_stats().frame_time_p99).toBe(100);
+    });
+
+    it('should measure real frame times in fixed-step mode', () => {
+        const clock = new ManualClock(0, 250);
+        const loop = new StepLoop(10, undefined, true, { clock: clock, fixed_step: true });
+        loop.start();
+        clock.advance(1000);
+        loop.finish();
+
+        const stats = loop.get_stats();
+        expect(stats.samples).toBe(11);
+        expect(stats.mean_sps).toBeCloseTo(10);
+        expect(stats.max_sps).toBeCloseTo(4);
+        expect(stats.frame_time_p50).toBe(0);
+        expect(stats.frame_time_p99).toBe(250);
+        expect(stats.jitter).toBeGreaterThan(0);
+    });
+
+    it('should count overruns and call on_overrun', () => {
+        const clock = new ManualClock();
+        const overruns: string[] = [];
+
+        class SlowLoop extends StepLoop {
+            override step(context: StepContext) {
+                if (context.step % 2 === 1) {
+                    clock.advance(150);
+                }
+            }
+            override on_overrun(duration_ms: number, context: StepContext) {
+                overruns.push(`${context.step} ${duration_ms}`);
+            }
+        }
+
+        const loop = new SlowLoop(10, 4, false, { clock: clock });
+        let events = 0;
+        loop.on('overrun', () => { events++; });
+        loop.start();
+        clock.advance(1000);
+
+        expect(overruns).toEqual(['1 150', '3 150']);
+        expect(events).toBe(2);
+        const stats = loop.get_stats();
+        expect(stats.overruns).toBe(2);
+        expect(stats.max_hook_time).toBe(150);
+        expect(stats.mean_hook_time).toBe(75);
+    });
+});
+
+describe('Adaptive step rate', () => {
+    const make_loop = () => {
+        const clock = new ManualClock();
+
+        class LoadedLoop extends StepLoop {
+            load_ms = 0;
+            changes: string[] = [];
+
+            override step() {
+                clock.advance(this.load_ms);
+            }
+            override on_sps_change(sps: number, previous: number) {
+                this.changes.push(`${previous} -> ${sps}`);
+            }
+        }
+
+        const loop = new LoadedLoop(100, undefined, false, {
+            clock: clock,
+            adaptive_sps: { min_sps: 50, overrun_threshold: 3, recovery_steps: 5 },
+        });
+        return { clock, loop };
+    };
+
+    it('should lower the rate under sustained overruns, within bounds', () => {
+        const { clock, loop } = make_loop();
+        loop.load_ms = 25;
+        loop.start();
+        clock.advance(1000);
+        loop.finish();
+
+        expect(loop.changes).toEqual(['100 -> 75', '75 -> 56.25', '56.25 -> 50']);
+        expect(loop.get_sps()).toBe(50);
+    });
+
+    it('should raise the rate back when headroom returns', () => {
+        const { clock, loop } = make_loop();
+        loop.load_ms = 15;
+        loop.start();
+        while (loop.changes.length === 0) {
+            clock.next();
+        }
+        expect(loop.get_sps()).toBe(75);
+
+        loop.load_ms = 0;
+        clock.advance(1000);
+        loop.finish();
+        expect(loop.changes).toEqual(['100 -> 75', '75 -> 93.75', '93.75 -> 100']);
+    });
+
+    it('should emit an event when the rate changes', () => {
+        const loop = new StepLoop(60);
+        const changes: number[][] = [];
+        loop.on('sps_change', (sps, previous) => { changes.push([sps, previous]); });
+        loop.set_sps(30);
+        loop.set_sps(30);
+        expect(changes).toEqual([[30, 60]]);
+    });
+
+    it('should keep the schedule steady when the rate changes while running', () => {
+        const clock = new ManualClock();
+        const times: number[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.on('step', (context) => { times.push(context.scheduled_time); });
+        loop.start();
+        clock.advance(250);
+        loop.set_sps(20);
+        clock.advance(200);
+        loop.finish();
+
+        expect(times).toEqual([0, 100, 200, 300, 350, 400, 450]);
+    });
+
+    it('should not adapt unless enabled', () => {
+        const loop = new StepLoop(60);
+        expect(loop.set_adaptive_sps({ min_sps: 30 })).toBe(true);
+        expect(loop.set_adaptive_sps()).toBe(false);
+    });
+});
+
+describe('Loop timers', () => {
+    it('should run a callback at a given step', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.on('before', (context) => { calls.push(`before ${context.step}`); });
+        loop.at_step(2, (context) => { calls.push(`timer ${context.step}`); });
+        loop.start();
+        clock.advance(300);
+        loop.finish();
+
+        expect(calls).toEqual(['before 0', 'before 1', 'timer 2', 'before 2', 'before 3']);
+    });
+
+    it('should run a callback every N steps until cancelled', () => {
+        const clock = new ManualClock();
+        const steps: number[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        const cancel = loop.every_steps(3, (context) => { steps.push(context.step); });
+        loop.start();
+        clock.advance(1000);
+        cancel();
+        clock.advance(1000);
+        loop.finish();
+
+        expect(steps).toEqual([3, 6, 9]);
+    });
+
+    it('should run a callback after an amount of loop time, frozen while paused', () => {
+        const clock = new ManualClock();
+        const fired: number[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.after_time(250, (context) => { fired.push(context.elapsed_ms); });
+        loop.start();
+        clock.advance(200);
+        loop.pause();
+        clock.advance(1000);
+        expect(fired).toEqual([]);
+
+        loop.play();
+        expect(loop.get_elapsed()).toBe(200);
+        clock.advance(100);
+        loop.finish();
+        expect(fired).toEqual([300]);
+    });
+
+    it('should clear timers when the loop finishes', () => {
+        const clock = new ManualClock();
+        let calls = 0;
+        const loop = new StepLoop(10, 2, false, { clock: clock });
+        loop.every_steps(1, () => { calls++; });
+        loop.start();
+        clock.advance(1000);
+        expect(calls).toBe(1);
+
+        loop.extend_lifespan(2);
+        loop.play();
+        clock.advance(1000);
+        expect(calls).toBe(1);
+    });
+});
+
+describe('Systems', () => {
+    it('should run systems by phase and priority', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override before() { calls.push('method before'); }
+            override step() { calls.push('method step'); }
+            override after() { calls.push('method after'); }
+        }
+
+        const loop = new TestLoop(10, 1, false, { clock: clock });
+        loop.on('step', () => { calls.push('listener step'); });
+        loop.add_system({ name: 'render', phase: 'after', run: () => { calls.push('render'); } });
+        loop.add_system({ name: 'ai', run: () => { calls.push('ai'); } });
+        loop.add_system({ name: 'physics', priority: 10, run: () => { calls.push('physics'); } });
+        loop.add_system({ name: 'input', phase: 'before', run: () => { calls.push('input'); } });
+        loop.start();
+        clock.advance(100);
+
+        expect(calls).toEqual(['method before', 'input', 'method step', 'physics', 'ai', 'listener step', 'method after', 'render']);
+        expect(loop.get_systems().map(system => system.name)).toEqual(['input', 'physics', 'ai', 'render']);
+    });
+
+    it('should add, remove, enable and disable systems at runtime', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+
+        const remove_a = loop.add_system({ name: 'a', run: (context) => { calls.push(`a ${context.step}`); } });
+        loop.add_system({ name: 'b', enabled: false, run: (context) => { calls.push(`b ${context.step}`); } });
+        loop.start();
+        expect(loop.set_system_enabled('b', true)).toBe(true);
+        clock.advance(100);
+        remove_a();
+        loop.add_system({ name: 'c', run: (context) => { calls.push(`c ${context.step}`); } });
+        clock.advance(100);
+        expect(loop.remove_system('b')).toBe(true);
+        expect(loop.remove_system('b')).toBe(false);
+        expect(loop.set_system_enabled('b', true)).toBe(false);
+        clock.advance(100);
+        loop.finish();
+
+        expect(calls).toEqual(['a 0', 'a 1', 'b 1', 'b 2', 'c 2', 'c 3']);
+    });
+
+    it('should reject duplicate system names', () => {
+        const loop = new StepLoop();
+        loop.add_system({ name: 'a', run: () => {} });
+        expect(() => loop.add_system({ name: 'a', run: () => {} })).toThrow('A system named "a" is already registered');
+    });
+
+    it('should track the time each system takes', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.add_system({ name: 'slow', run: (context) => { clock.advance(context.step === 0 ? 2 : 4); } });
+        loop.add_system({ name: 'idle', enabled: false, run: () => {} });
+        loop.start();
+        clock.advance(100);
+        loop.finish();
+
+        const [slow, idle] = loop.get_systems();
+        expect(slow).toMatchObject({ name: 'slow', phase: 'step', priority: 0, enabled: true, runs: 2, last_time: 4, mean_time: 3, total_time: 6 });
+        expect(idle).toMatchObject({ name: 'idle', enabled: false, runs: 0, mean_time: 0 });
+    });
+});
+
+describe('LoopGroup', () => {
+    const make_group = () => {
+        const clock = new ManualClock(0, 1000 / 60);
+        const calls: string[] = [];
+        const make_loop = (name: string, sps: number, RAF: boolean = false) => {
+            const loop = new StepLoop(sps, undefined, RAF);
+            loop.on('step', (context) => { calls.push(`${name} ${context.step}`); });
+            return loop;
+        };
+        const group = new LoopGroup(clock);
+        return { clock, calls, group, make_loop };
+    };
+
+    it('should drive loops at different rates from one scheduler', () => {
+        const { clock, calls, group, make_loop } = make_group();
+        const physics = make_loop('physics', 120);
+        const logic = make_loop('logic', 30);
+        expect(group.add(physics)).toBe(true);
+        expect(group.add(logic)).toBe(true);
+        expect(group.add(logic)).toBe(false);
+        expect(group.get_loops()).toEqual([physics, logic]);
+
+        group.start();
+        expect(clock.pending()).toBe(1);
+        clock.advance(1001);
+        group.finish();
+
+        expect(physics.get_step()).toBe(121);
+        expect(logic.get_step()).toBe(31);
+        expect(calls.slice(0, 7)).toEqual(['physics 0', 'logic 0', 'physics 1', 'physics 2', 'physics 3', 'physics 4', 'logic 1']);
+    });
+
+    it('should order loops by insertion when deadlines coincide', () => {
+        const { clock, calls, group, make_loop } = make_group();
+        group.add(make_loop('b', 30));
+        group.add(make_loop('a', 10));
+        group.start();
+        clock.advance(100);
+        group.finish();
+
+        expect(calls).toEqual(['b 0', 'a 0', 'b 1', 'b 2', 'b 3', 'a 1']);
+    });
+
+    it('should catch up a stalled loop by its own catch-up policy', () => {
+        const { clock, calls, group, make_loop } = make_group();
+        const loop = make_loop('a', 10);
+        loop.on('step', (context) => {
+            if (context.step === 2) clock.advance(1000);
+            if (context.step === 3) clock.set_timeout(() => { calls.push('tick'); }, 0);
+        });
+        group.add(loop);
+        group.start();
+        clock.advance(1500);
+        group.finish();
+
+        expect(calls.slice(0, 6)).toEqual(['a 0', 'a 1', 'a 2', 'a 3', 'tick', 'a 4']);
+    });
+
+    it('should share one frame callback between RAF loops', () => {
+        const { clock, calls, group, make_loop } = make_group();
+        group.add(make_loop('render', 60, true));
+        group.add(make_loop('ui', 60, true));
+        group.add(make_loop('logic', 20));
+        group.start();
+        expect(clock.pending()).toBe(2);
+        clock.advance(40);
+        group.finish();
+
+        expect(calls).toEqual(['render 0', 'ui 0', 'logic 0', 'render 1', 'ui 1', 'render 2', 'ui 2']);
+    });
+
+    it('should pause, play and finish the whole group', () => {
+        const { clock, group, make_loop } = make_group();
+        const a = make_loop('a', 10);
+        const b = make_loop('b', 20);
+        group.add(a);
+        group.add(b);
+        group.start();
+        expect(group.is_running()).toBe(true);
+
+        group.pause();
+        expect(a.is_paused() && b.is_paused()).toBe(true);
+        clock.advance(1000);
+        expect([a.get_step(), b.get_step()]).toEqual([1, 1]);
+
+        group.play();
+        clock.advance(100);
+        expect([a.get_step(), b.get_step()]).toEqual([3, 4]);
+
+        group.finish();
+        expect(group.is_running()).toBe(false);
+        expect(clock.pending()).toBe(0);
+    });
+
+    it('should give removed loops back the group clock', () => {
+        const { clock, group, make_loop } = make_group();
+        const loop = make_loop('a', 10);
+        group.add(loop);
+        expect(loop.get_clock()).not.toBe(clock);
+        expect(group.remove(loop)).toBe(true);
+        expect(group.remove(loop)).toBe(false);
+        expect(loop.get_clock()).toBe(clock);
+    });
+});
+
+describe('Time scale and single-stepping', () => {
+    it('should scale delta time and loop time without changing the step rate', () => {
+        const clock = new ManualClock();
+        const contexts: StepContext[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock, time_scale: 0.25 });
+        loop.on('step', (context) => { contexts.push(context); });
+        loop.start();
+        clock.advance(200);
+        expect(loop.set_time_scale(4)).toBe(4);
+        clock.advance(100);
+        loop.finish();
+
+        expect(loop.get_step()).toBe(4);
+        expect(contexts.map(context => context.delta_ms)).toEqual([0, 25, 25, 400]);
+        expect(contexts.map(context => context.elapsed_ms)).toEqual([0, 25, 50, 450]);
+        expect(contexts.map(context => context.time_scale)).toEqual([0.25, 0.25, 0.25, 4]);
+        expect(loop.get_elapsed()).toBe(450);
+        expect(loop.get_real_sps()).toBe(10);
+    });
+
+    it('should scale timers that run on loop time', () => {
+        const clock = new ManualClock();
+        let fired_at: number | undefined;
+        const loop = new StepLoop(10, undefined, false, { clock: clock, time_scale: 0.5 });
+        loop.after_time(100, () => { fired_at = clock.now(); });
+        loop.start();
+        clock.advance(1000);
+        loop.finish();
+
+        expect(fired_at).toBe(200);
+    });
+
+    it('should treat negative time scales as zero', () => {
+        const loop = new StepLoop();
+        expect(loop.set_time_scale(-1)).toBe(0);
+        expect(loop.get_time_scale()).toBe(0);
+    });
+
+    it('should execute exactly one step while paused', () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+
+        class TestLoop extends StepLoop {
+            override before(context: StepContext) { calls.push(`before ${context.step}`); }
+            override step(context: StepContext) { calls.push(`step ${context.step} ${context.delta_ms}`); }
+            override after(context: StepContext) { calls.push(`after ${context.step}`); }
+        }
+
+        const loop = new TestLoop(10, 3, false, { clock: clock });
+        expect(loop.step_once()).toBe(false);
+        loop.start();
+        expect(loop.step_once()).toBe(false);
+        loop.pause();
+        calls.length = 0;
+
+        clock.advance(1000);
+        expect(loop.step_once()).toBe(true);
+        expect(calls).toEqual(['before 1', 'step 1 100', 'after 1']);
+        expect(loop.is_paused()).toBe(true);
+        expect(clock.pending()).toBe(0);
+
+        expect(loop.step_once()).toBe(true);
+        expect(loop.step_once()).toBe(false);
+        expect(loop.get_step()).toBe(3);
+        expect(loop.is_running()).toBe(false);
+    });
+
+    it('should resume smoothly after single-stepping', () => {
+        const clock = new ManualClock();
+        const deltas: number[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.on('step', (context) => { deltas.push(context.delta_ms); });
+        loop.start();
+        loop.pause();
+        clock.advance(500);
+        loop.step_once();
+        clock.advance(500);
+        loop.play();
+        clock.advance(100);
+        loop.finish();
+
+        expect(deltas).toEqual([0, 100, 0, 100]);
+    });
+
+    it('should give single steps a background signal that is not aborted yet', async () => {
+        const clock = new ManualClock();
+        const signals: AbortSignal[] = [];
+        let release = () => {};
+        const loop = create_loop({
+            background(context, signal) {
+                signals.push(signal);
+                return new Promise<void>(resolve => { release = resolve; });
+            },
+        }, 10, undefined, false, { clock: clock });
+        loop.start();
+        loop.pause();
+        release();
+
+        loop.step_once();
+        expect(signals[1]!.aborted).toBe(false);
+        release();
+        await sleep(0);
+        expect(signals[1]!.aborted).toBe(true);
+
+        loop.step_once();
+        expect(signals[2]!.aborted).toBe(false);
+        loop.play();
+        expect(signals[2]!.aborted).toBe(true);
+        loop.finish();
+    });
+});
+
+describe('Input recording and replay', () => {
+    class InputLoop extends StepLoop {
+        log: string[] = [];
+        position = 0;
+
+        override on_input(input: unknown, context: StepContext) {
+            this.position += (input as { move: number }).move;
+            this.log.push(`input ${context.step} ${JSON.stringify(input)}`);
+        }
+        override step(context: StepContext) {
+            this.log.push(`step ${context.step} ${this.position}`);
+        }
+    }
+
+    const record = () => {
+        const clock = new ManualClock();
+        const loop = new InputLoop(10, undefined, false, { clock: clock });
+        loop.start_recording();
+        loop.start();
+        loop.send_input({ move: 1 });
+        clock.advance(150);
+        loop.send_input({ move: 2 });
+        loop.send_input({ move: -1 });
+        clock.advance(200);
+        const recording = loop.stop_recording()!;
+        loop.finish();
+        return { loop, recording };
+    };
+
+    it('should apply inputs at the beginning of the next step', () => {
+        const { loop } = record();
+        expect(loop.log).toEqual([
+            'step 0 0',
+            'input 1 {"move":1}',
+            'step 1 1',
+            'input 2 {"move":2}',
+            'input 2 {"move":-1}',
+            'step 2 2',
+            'step 3 2',
+        ]);
+    });
+
+    it('should record inputs tagged with their step in a JSON format', () => {
+        const { recording } = record();
+        expect(JSON.parse(JSON.stringify(recording))).toEqual({
+            version: 1,
+            sps: 10,
+            time_scale: 1,
+            steps: 4,
+            first_step: 0,
+            inputs: [
+                { step: 1, input: { move: 1 } },
+                { step: 2, input: { move: 2 } },
+                { step: 2, input: { move: -1 } },
+            ],
+            rates: [],
+            deltas: [0, 100, 100, 100],
+        });
+        expect(new StepLoop().stop_recording()).toBeUndefined();
+    });
+
+    it('should replay a recording as fast as possible without timers', () => {
+        const { loop, recording } = record();
+        const clock = new ManualClock();
+        const replayed = new InputLoop(60, undefined, false, { clock: clock });
+        replayed.replay(JSON.parse(JSON.stringify(recording)), Infinity);
+
+        expect(replayed.log).toEqual(loop.log);
+        expect(replayed.is_running()).toBe(false);
+        expect(replayed.get_step()).toBe(4);
+        expect(clock.pending()).toBe(0);
+    });
+
+    it('should replay a recording at a given speed', () => {
+        const { loop, recording } = record();
+        const clock = new ManualClock();
+        const replayed = new InputLoop(60, undefined, false, { clock: clock });
+        const deltas: number[] = [];
+        replayed.on('step', (context) => { deltas.push(context.delta_ms); });
+        replayed.replay(recording, 2);
+
+        expect(replayed.get_sps()).toBe(20);
+        clock.advance(200);
+        expect(replayed.log).toEqual(loop.log);
+        expect(replayed.is_running()).toBe(false);
+        expect(deltas).toEqual([0, 100, 100, 100]);
+        expect(replayed.get_sps()).toBe(60);
+        expect(replayed.get_time_scale()).toBe(1);
+        expect(replayed.get_lifespan()).toBeUndefined();
+    });
+
+    it('should replay the time scale, rate changes and delta time of the recording', () => {
+        const clock = new ManualClock();
+        const loop = new InputLoop(10, undefined, false, { clock: clock, time_scale: 0.5 });
+        const recorded: number[] = [];
+        loop.on('step', (context) => { recorded.push(context.delta_ms); });
+        loop.start_recording();
+        loop.start();
+        clock.advance(250);
+        loop.set_sps(20);
+        loop.set_time_scale(2);
+        clock.advance(130);
+        const recording = loop.stop_recording()!;
+        loop.finish();
+        expect(recording.rates).toEqual([{ step: 3, sps: 20, time_scale: 2 }]);
+
+        for (const speed of [Infinity, 2]) {
+            const replayed = new InputLoop(60, undefined, false, { clock: clock });
+            const deltas: number[] = [];
+            const rates: string[] = [];
+            replayed.on('step', (context) => {
+                deltas.push(context.delta_ms);
+                rates.push(`${replayed.get_sps()} ${context.time_scale}`);
+            });
+            replayed.replay(recording, speed);
+            clock.advance(1000);
+
+            expect(deltas).toEqual(recorded);
+            expect(replayed.get_elapsed()).toBe(loop.get_elapsed());
+            expect(rates).toEqual(speed === Infinity
+                ? ['10 0.5', '10 0.5', '10 0.5', '20 2', '20 2']
+                : ['20 0.5', '20 0.5', '20 0.5', '40 2', '40 2']);
+        }
+    });
+
+    it('should finish right away when replaying an empty recording', async () => {
+        const clock = new ManualClock();
+        const replayed = new InputLoop(60, 5, false, { clock: clock });
+        await replayed.replay({ version: 1, sps: 10, time_scale: 1, steps: 0, first_step: 0, inputs: [], rates: [], deltas: [] }, Infinity);
+        await replayed.replay({ version: 1, sps: 10, time_scale: 1, steps: 0, first_step: 0, inputs: [], rates: [], deltas: [] }, 2);
+
+        expect(replayed.log).toEqual([]);
+        expect(replayed.get_state()).toBe('finished');
+        expect(replayed.get_sps()).toBe(60);
+        expect(replayed.get_lifespan()).toBe(5);
+        expect(clock.pending()).toBe(0);
+    });
+});
+
+describe('Command queue', () => {
+    type Command = { name: string };
+
+    class CommandLoop extends StepLoop<Command> {
+        log: string[] = [];
+
+        override on_input(input: Command, context: StepContext) {
+            this.log.push(`${context.step} ${input.name}`);
+        }
+    }
+
+    it('should apply scheduled commands on their step, in order of step then enqueue order', () => {
+        const clock = new ManualClock();
+        const loop = new CommandLoop(10, undefined, false, { clock: clock });
+        loop.start_recording();
+        loop.start();
+        loop.enqueue({ name: 'c' }, 3);
+        loop.enqueue({ name: 'a' }, 2);
+        loop.enqueue({ name: 'b' }, 2);
+        loop.send_input({ name: 'next' });
+        clock.advance(100);
+        expect(loop.log).toEqual(['1 next']);
+
+        loop.enqueue({ name: 'late' }, 0);
+        loop.enqueue({ name: 'd' });
+        clock.advance(200);
+        expect(loop.log).toEqual(['1 next', '2 late', '2 a', '2 b', '2 d', '3 c']);
+        expect(loop.stop_recording()?.inputs.map(recorded => `${recorded.step} ${recorded.input.name}`)).toEqual(loop.log);
+    });
+
+    it('should cancel commands that have not been applied yet', () => {
+        const clock = new ManualClock();
+        const loop = new CommandLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        const cancel = loop.enqueue({ name: 'cancelled' }, 2);
+        const applied = loop.enqueue({ name: 'applied' });
+        clock.advance(100);
+        cancel();
+        applied();
+        clock.advance(200);
+
+        expect(loop.log).toEqual(['1 applied']);
+    });
+});
+
+describe('Snapshots', () => {
+    class CounterLoop extends StepLoop {
+        count: number = 0;
+        steps: number[] = [];
+        override initial(): void { this.count = 0; }
+        override step(context: StepContext): void { this.count += 2; this.steps.push(context.step); }
+        override save_state(): unknown { return { count: this.count }; }
+        override load_state(state: unknown): void { this.count = (state as { count: number }).count; }
+    }
+
+    it('should take a serializable snapshot of the loop', () => {
+        const clock = new ManualClock();
+        const loop = new CounterLoop(10, 10, false, { clock: clock, time_scale: 2 });
+        loop.start();
+        clock.advance(300);
+
+        expect(JSON.parse(JSON.stringify(loop.snapshot()))).toEqual({
+            version: 1,
+            step: 4,
+            lifespan: 10,
+            sps: 10,
+            elapsed_ms: 600,
+            time_scale: 2,
+            state: { count: 8 },
+        });
+        loop.finish();
+    });
+
+    it('should resume a loop from a snapshot', () => {
+        const clock = new ManualClock();
+        const loop = new CounterLoop(10, 6, false, { clock: clock });
+        loop.start();
+        clock.advance(300);
+        const snapshot = JSON.parse(JSON.stringify(loop.snapshot()));
+        loop.finish();
+
+        const resumed = new CounterLoop(60, undefined, false, { clock: clock });
+        resumed.start_from(snapshot);
+        expect(resumed.get_sps()).toBe(10);
+        expect(resumed.get_lifespan()).toBe(6);
+        expect(resumed.get_step()).toBe(5);
+        expect(resumed.steps).toEqual([4]);
+        expect(resumed.count).toBe(10);
+
+        clock.advance(1000);
+        expect(resumed.is_running()).toBe(false);
+        expect(resumed.steps).toEqual([4, 5]);
+        expect(resumed.count).toBe(12);
+        expect(resumed.get_elapsed()).toBe(400);
+    });
+
+    it('should keep the duration of the loop across a snapshot', () => {
+        const clock = new ManualClock();
+        const loop = new CounterLoop(10, undefined, false, { clock: clock, duration: 1000 });
+        loop.start();
+        clock.advance(500);
+        const snapshot = JSON.parse(JSON.stringify(loop.snapshot()));
+        loop.finish();
+        expect(snapshot.duration).toBe(1000);
+
+        const resumed = new CounterLoop(10, undefined, false, { clock: clock });
+        const reasons: StepLoopEndReason[] = [];
+        resumed.on('final', (reason) => { reasons.push(reason); });
+        resumed.start_from(snapshot);
+        clock.advance(2000);
+        expect(resumed.get_duration()).toBe(1000);
+        expect(resumed.get_elapsed()).toBe(900);
+        expect(reasons).toEqual(['duration']);
+    });
+});
+
+describe('Promise and async-iterator API', () => {
+    it('should resolve the promise returned by start() when final() completes', async () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = create_loop({ final() { calls.push('final'); } }, 10, 3, false, { clock: clock });
+        const done = loop.start().then(() => { calls.push('resolved'); });
+        expect(loop.completion()).toBe(loop.completion());
+
+        clock.advance(1000);
+        await done;
+        expect(calls).toEqual(['final', 'resolved']);
+    });
+
+    it('should reject the promise when the loop is ended by an error under the finish policy', async () => {
+        const clock = new ManualClock();
+        const loop = create_loop({
+            step() { if (this.get_step() === 2) throw new Error('Test crash in step()'); },
+            on_error() {},
+        }, 10, undefined, false, { clock: clock, error_policy: 'finish' });
+        const done = loop.start();
+        clock.advance(1000);
+
+        await expect(done).rejects.toThrow('Test crash in step()');
+        expect(loop.get_step()).toBe(3);
+    });
+
+    it('should not reject when an error is handled by the policy', async () => {
+        const clock = new ManualClock();
+        const loop = create_loop({
+            step() { if (this.get_step() === 2) throw new Error('Test crash in step()'); },
+            on_error() {},
+        }, 10, 5, false, { clock: clock });
+        const done = loop.start();
+        clock.advance(1000);
+
+        await expect(done).resolves.toBeUndefined();
+    });
+
+    it('should create a new promise for each run', async () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, 2, false, { clock: clock });
+        const first = loop.start();
+        clock.advance(1000);
+        await first;
+
+        expect(loop.completion()).toBe(first);
+        const second = loop.start();
+        expect(second).not.toBe(first);
+        loop.finish();
+        await second;
+    });
+
+    it('should iterate over the steps of the loop with for await', async () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, 4, false, { clock: clock });
+        const steps: number[] = [];
+        const consume = (async () => {
+            for await (const tick of loop) {
+                steps.push(tick.step);
+            }
+        })();
+
+        clock.advance(1000);
+        await consume;
+        expect(steps).toEqual([0, 1, 2, 3]);
+        expect(loop.is_running()).toBe(false);
+    });
+
+    it('should stop listening without finishing the loop when iteration breaks', async () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        const steps: number[] = [];
+        const consume = (async () => {
+            for await (const tick of loop) {
+                steps.push(tick.step);
+                if (steps.length === 2) break;
+            }
+        })();
+
+        clock.advance(500);
+        await consume;
+        expect(steps).toEqual([1, 2]);
+        expect(loop.is_running()).toBe(true);
+        loop.finish();
+    });
+
+    it('should throw from the iteration when the loop fails', async () => {
+        const clock = new ManualClock();
+        const loop = create_loop({
+            step() { if (this.get_step() === 1) throw new Error('Test crash in step()'); },
+            on_error() {},
+        }, 10, undefined, false, { clock: clock, error_policy: 'finish' });
+        const steps: number[] = [];
+        const consume = (async () => {
+            for await (const tick of loop) {
+                steps.push(tick.step);
+            }
+        })();
+
+        clock.advance(1000);
+        await expect(consume).rejects.toThrow('Test crash in step()');
+        expect(steps).toEqual([0]);
+    });
+});
+
+describe('Lifecycle state', () => {
+    it('should report its state and emit state_change events', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, 3, false, { clock: clock });
+        const changes: string[] = [];
+        loop.on('state_change', (state: StepLoopState, previous: StepLoopState) => { changes.push(`${previous} -> ${state}`); });
+
+        expect(loop.get_state()).toBe('idle');
+        loop.start();
+        expect(loop.get_state()).toBe('running');
+        loop.pause();
+        expect(loop.get_state()).toBe('paused');
+        loop.play();
+        clock.advance(1000);
+        expect(loop.get_state()).toBe('finished');
+        expect(changes).toEqual(['idle -> running', 'running -> paused', 'paused -> running', 'running -> finished']);
+    });
+
+    it('should ignore invalid transitions by default', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.pause();
+        loop.play();
+        loop.finish();
+        expect(loop.get_state()).toBe('idle');
+
+        loop.start();
+        clock.advance(200);
+        loop.start();
+        expect(loop.get_step()).toBe(3);
+        loop.finish();
+    });
+
+    it('should throw on invalid transitions in strict mode', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock, strict: true });
+        expect(() => loop.pause()).toThrow('Cannot call pause() on a StepLoop that is idle; it can only be called when the loop is running');
+
+        loop.start();
+        expect(() => loop.start()).toThrow('Cannot call start() on a StepLoop that is running; it can only be called when the loop is idle or finished');
+        expect(() => loop.play()).toThrow('Cannot call play() on a StepLoop that is running');
+        loop.finish();
+        expect(() => loop.finish()).toThrow('Cannot call finish() on a StepLoop that is finished');
+    });
+
+    it('should accept lifespan changes before the loop is started', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, false, { clock: clock, strict: true });
+        expect(loop.set_lifespan(3)).toBe(3);
+        expect(loop.extend_lifespan(2)).toBe(5);
+        loop.start();
+        clock.advance(1000);
+
+        expect(loop.get_state()).toBe('finished');
+        expect(loop.get_step()).toBe(5);
+    });
+
+    it('should return to idle on reset() and run again on restart()', async () => {
+        const clock = new ManualClock();
+        const calls: string[] = [];
+        const loop = create_loop({
+            initial() { calls.push('initial'); },
+            final() { calls.push('final'); },
+        }, 10, 3, false, { clock: clock, strict: true });
+
+        loop.start();
+        clock.advance(100);
+        loop.reset();
+        expect(loop.get_state()).toBe('idle');
+        expect(loop.get_step()).toBe(0);
+        expect(calls).toEqual(['initial', 'final']);
+
+        const done = loop.restart();
+        clock.advance(1000);
+        await done;
+        expect(calls).toEqual(['initial', 'final', 'initial', 'final']);
+        expect(loop.get_step()).toBe(3);
+
+        const again = loop.restart();
+        expect(loop.get_state()).toBe('running');
+        expect(again).not.toBe(done);
+        loop.finish();
+    });
+
+    it('should drop async work left over from the run before restart()', async () => {
+        const clock = new ManualClock();
+        const resolvers: (() => void)[] = [];
+        const calls: string[] = [];
+        const loop = create_loop({
+            step(context) {
+                calls.push(`step ${context.step}`);
+                if (context.step === 0 && resolvers.length === 0) return new Promise<void>(resolve => resolvers.push(resolve));
+            },
+            async background() { await sleep(0); },
+            final() { calls.push('final'); },
+        }, 10, undefined, false, { clock: clock, await_background: true });
+
+        loop.start();
+        expect(calls).toEqual(['step 0']);
+        loop.restart();
+        expect(calls).toEqual(['step 0', 'final', 'step 0']);
+        expect(loop.get_step()).toBe(1);
+
+        resolvers[0]!();
+        await sleep(0);
+        await sleep(0);
+        expect(loop.get_step()).toBe(1);
+        clock.advance(100);
+        expect(calls).toEqual(['step 0', 'final', 'step 0', 'step 1']);
+        expect(loop.get_step()).toBe(2);
+        loop.finish();
+    });
+});
+
+describe('Stop conditions', () => {
+    const make_loop = (sps: number, lifespan: number | undefined, options: StepLoopOptions = {}) => {
+        const clock = new ManualClock();
+        const reasons: StepLoopEndReason[] = [];
+        const steps: number[] = [];
+        const loop = create_loop({
+            step(context: StepContext) { steps.push(context.step); },
+            final(reason: StepLoopEndReason) { reasons.push(reason); },
+        }, sps, lifespan, false, { clock: clock, ...options });
+        return { clock, loop, reasons, steps };
+    };
+
+    it('should tell final() that the lifespan ended the loop', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, 3);
+        loop.start();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1, 2]);
+        expect(reasons).toEqual(['lifespan']);
+    });
+
+    it('should end the loop after a duration of loop time', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, undefined, { duration: 1000 });
+        loop.start();
+        clock.advance(500);
+        loop.set_sps(20);
+        clock.advance(2000);
+
+        expect(loop.get_duration()).toBe(1000);
+        expect(loop.get_elapsed()).toBe(950);
+        expect(steps.length).toBe(14);
+        expect(reasons).toEqual(['duration']);
+    });
+
+    it('should end the loop at a deadline', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, undefined);
+        expect(loop.set_deadline(450)).toBe(450);
+        loop.start();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1, 2, 3, 4]);
+        expect(reasons).toEqual(['deadline']);
+    });
+
+    it('should end a paused loop when its deadline passes', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, undefined);
+        loop.set_deadline(450);
+        loop.start();
+        clock.advance(150);
+        loop.pause();
+        clock.advance(100);
+        expect(loop.get_state()).toBe('paused');
+
+        clock.advance(300);
+        expect(loop.get_state()).toBe('finished');
+        expect(steps).toEqual([0, 1]);
+        expect(reasons).toEqual(['deadline']);
+    });
+
+    it('should move the deadline to the new clock of a paused loop', () => {
+        const { clock, loop, reasons } = make_loop(10, undefined);
+        loop.set_deadline(1000);
+        loop.start();
+        loop.pause();
+
+        const other = new ManualClock();
+        const fired: string[] = [];
+        other.set_timeout(() => { fired.push('unrelated'); }, 100);
+        loop.set_clock(other);
+        loop.set_deadline(5000);
+        clock.advance(2000);
+        expect(loop.get_state()).toBe('paused');
+
+        other.advance(5000);
+        expect(fired).toEqual(['unrelated']);
+        expect(reasons).toEqual(['deadline']);
+    });
+
+    it('should revive a loop ended by its duration or deadline', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, undefined, { duration: 300 });
+        loop.start();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1, 2]);
+
+        loop.set_duration(500);
+        expect(loop.get_state()).toBe('paused');
+        loop.play();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1, 2, 3, 4]);
+
+        loop.set_duration(undefined);
+        loop.set_deadline(clock.now() + 250);
+        loop.play();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+
+        loop.set_deadline(clock.now());
+        expect(loop.get_state()).toBe('finished');
+        loop.set_deadline(undefined);
+        expect(loop.get_state()).toBe('paused');
+        expect(reasons).toEqual(['duration', 'duration', 'deadline']);
+    });
+
+    it('should end the loop when a stop condition is met', () => {
+        const { clock, loop, reasons, steps } = make_loop(10, undefined);
+        const remove = loop.stop_when(() => false);
+        loop.stop_when((l) => l.get_step() >= 2);
+        remove();
+        loop.start();
+        clock.advance(1000);
+        expect(steps).toEqual([0, 1]);
+        expect(reasons).toEqual(['condition']);
+    });
+
+    it('should report manual and fatal endings', () => {
+        const manual = make_loop(10, undefined);
+        manual.loop.start();
+        manual.loop.finish();
+        expect(manual.reasons).toEqual(['finish']);
+
+        const clock = new ManualClock();
+        const reasons: StepLoopEndReason[] = [];
+        const failing = create_loop({
+            step() { throw new Error('Test crash in step()'); },
+            on_error() {},
+        }, 10, undefined, false, { clock: clock, error_policy: 'finish' });
+        failing.on('final', (reason) => { reasons.push(reason); });
+        failing.start();
+        expect(reasons).toEqual(['error']);
+    });
+});
+
+describe('Worker hosting', () => {
+    // Two ends of a channel that deliver messages on the next microtask, like a real port
+    const make_ports = (): [MessagePortLike, MessagePortLike] => {
+        const listeners: Array<Array<(message: unknown) => void>> = [[], []];
+        const port = (self: number): MessagePortLike => ({
+            postMessage: (message) => {
+                const copy = structuredClone(message);
+                queueMicrotask(() => listeners[1 - self]!.forEach(listener => listener(copy)));
+            },
+            on: (event, listener) => { listeners[self]!.push(listener); },
+            off: (event, listener) => { listeners[self] = listeners[self]!.filter(entry => entry !== listener); },
+        });
+        return [port(0), port(1)];
+    };
+
+    it('should control a hosted loop through a proxy', async () => {
+        const clock = new ManualClock();
+        const [main, worker] = make_ports();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        host_loop(loop, worker, { status_interval: 1 });
+        const proxy = new StepLoopProxy(main);
+        const events: string[] = [];
+        proxy.on('state_change', (state, previous) => { events.push(`${previous} -> ${state}`); });
+        proxy.on('final', (reason) => { events.push(`final ${reason}`); });
+
+        await sleep(0);
+        expect(proxy.get_sps()).toBe(10);
+        expect(proxy.get_state()).toBe('idle');
+
+        proxy.start();
+        await sleep(0);
+        clock.advance(200);
+        await sleep(0);
+        expect(loop.is_running()).toBe(true);
+        expect(proxy.get_step()).toBe(3);
+
+        proxy.set_sps(20);
+        proxy.set_lifespan(5);
+        proxy.pause();
+        await sleep(0);
+        expect(loop.get_sps()).toBe(20);
+        expect(proxy.get_sps()).toBe(20);
+        expect(proxy.get_lifespan()).toBe(5);
+        expect(proxy.get_state()).toBe('paused');
+
+        proxy.play();
+        await sleep(0);
+        clock.advance(1000);
+        await sleep(0);
+        expect(proxy.get_step()).toBe(5);
+        expect(proxy.get_state()).toBe('finished');
+        expect(proxy.get_stats()?.samples).toBe(5);
+        expect(events).toEqual(['idle -> running', 'running -> paused', 'paused -> running', 'running -> finished', 'final lifespan']);
+    });
+
+    it('should stream errors and status at the configured interval', async () => {
+        const clock = new ManualClock();
+        const [main, worker] = make_ports();
+        const loop = create_loop({
+            step() { if (this.get_step() === 1) throw new Error('Test crash in step()'); },
+            on_error() {},
+        }, 10, undefined, false, { clock: clock });
+        const stop = host_loop(loop, worker, { status_interval: 2 });
+        const proxy = new StepLoopProxy(main);
+        const steps: number[] = [];
+        const errors: string[] = [];
+        proxy.on('status', (status) => { steps.push(status.step); });
+        proxy.on('error', (report) => { errors.push(`${report.stage} ${report.step} ${report.message}`); });
+
+        loop.start();
+        clock.advance(500);
+        await sleep(0);
+        expect(errors).toEqual(['step 1 Test crash in step()']);
+        expect(steps).toEqual([0, 0, 2, 4, 6]);
+
+        stop();
+        clock.advance(500);
+        proxy.finish();
+        await sleep(0);
+        expect(steps).toEqual([0, 0, 2, 4, 6]);
+        expect(loop.is_running()).toBe(true);
+        loop.finish();
+    });
+
+    it('should report the status every 10 steps by default', async () => {
+        const clock = new ManualClock();
+        const [main, worker] = make_ports();
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        host_loop(loop, worker);
+        const proxy = new StepLoopProxy(main);
+        const steps: number[] = [];
+        proxy.on('status', (status) => { steps.push(status.step); });
+
+        loop.start();
+        clock.advance(2500);
+        await sleep(0);
+        expect(steps).toEqual([0, 0, 10, 20]);
+        loop.finish();
+    });
+
+    it('should work over a real MessageChannel', async () => {
+        const clock = new ManualClock();
+        const channel = new MessageChannel();
+        const loop = new StepLoop(10, 3, false, { clock: clock });
+        host_loop(loop, channel.port2 as MessagePortLike);
+        const proxy = new StepLoopProxy(channel.port1 as MessagePortLike);
+        const finished = new Promise(resolve => proxy.on('final', resolve));
+
+        proxy.start();
+        await new Promise(resolve => setTimeout(resolve, 20));
+        clock.advance(1000);
+        expect(await finished).toBe('lifespan');
+        expect(proxy.get_step()).toBe(3);
+        channel.port1.close();
+    });
+});
+
+describe('PreciseClock', () => {
+    // setTimeout() is faked, and the clock's time also moves forward a little each time it is read, like real time while
+    // yielding or busy-waiting, so every phase runs against a known time source instead of the wall clock
+    let drift = 0;
+    const make_clock = (options: ConstructorParameters<typeof PreciseClock>[0], tick: number = 0.1) => {
+        const clock = new PreciseClock(options);
+        vi.spyOn(clock, 'now').mockImplementation(() => Date.now() + (drift += tick));
+        return clock;
+    };
+    const yield_once = () => new Promise(resolve => setImmediate(resolve));
+
+    beforeEach(() => {
+        drift = 0;
+        vi.useFakeTimers({ now: 0, toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should sleep, yield and busy-wait until its deadline', async () => {
+        const clock = make_clock({ margin: 2, spin: 0.5 });
+        const fired = new Promise<number>(resolve => clock.set_timeout(() => resolve(clock.now()), 15));
+        // Runs the coarse timeouts; from then on, only reading the clock moves time forward
+        vi.advanceTimersByTime(13);
+
+        const time = await fired;
+        expect(time).toBeGreaterThanOrEqual(15);
+        expect(time).toBeLessThan(15.5);
+    });
+
+    it('should cancel a callback in any phase', async () => {
+        const clock = make_clock({ margin: 20 });
+        let calls = 0;
+        clock.clear_timeout(clock.set_timeout(() => calls++, 40));
+        const late = clock.set_timeout(() => calls++, 10);
+        await yield_once();
+        clock.clear_timeout(late);
+        vi.advanceTimersByTime(50);
+        for (let i = 0; i < 200; i++) await yield_once();
+        expect(calls).toBe(0);
+    });
+
+    it('should run a loop at a kHz rate with sub-millisecond lateness', async () => {
+        const lateness: number[] = [];
+        const loop = create_loop({
+            step(context: StepContext) { lateness.push(context.lateness); },
+        }, 1000, 100, false, { clock: make_clock({ spin: 0.2 }, 0.01) });
+        await loop.start();
+
+        expect(lateness.length).toBe(100);
+        expect(Math.max(...lateness)).toBeLessThan(0.5);
+    });
+});
+
+describe('Catch-up policy', () => {
+    // Steps at 10 sps; step 2 stalls the event loop for 1 second, so steps 3 to 12 are missed
+    const run_stalled = (options: StepLoopOptions) => {
+        const clock = new ManualClock();
+        const ticks: string[] = [];
+        const loop = create_loop({
+            step(context: StepContext) {
+                ticks.push(`${context.step}@${context.actual_time} missed ${context.missed_steps}`);
+                if (context.step === 2) clock.advance(1000);
+            },
+        }, 10, undefined, false, { clock: clock, ...options });
+        loop.start();
+        clock.advance(1500);
+        loop.finish();
+        return ticks.slice(3, 7);
+    };
+
+    it('should run one missed step per tick under the burst policy', () => {
+        expect(run_stalled({})).toEqual(['3@1200 missed 9', '4@1200 missed 8', '5@1200 missed 7', '6@1200 missed 6']);
+    });
+
+    it('should run a bounded number of missed steps in one tick under the batch policy', () => {
+        const ticks = run_stalled({ catch_up_policy: 'batch', max_catch_up_steps: 2 });
+        expect(ticks).toEqual(['3@1200 missed 9', '4@1200 missed 1', '5@1200 missed 0', '6@1300 missed 0']);
+    });
+
+    it('should drop the backlog and re-anchor under the drop policy', () => {
+        const loop = new StepLoop();
+        expect(loop.set_catch_up_policy('drop')).toBe('drop');
+        expect(run_stalled({ catch_up_policy: 'drop' })).toEqual(['3@1200 missed 9', '4@1300 missed 0', '5@1400 missed 0', '6@1500 missed 0']);
+    });
+
+    it('should advance loop time by one interval per catch-up step and leave out dropped steps', () => {
+        const run = (policy: 'batch' | 'drop') => {
+            const clock = new ManualClock();
+            const deltas: string[] = [];
+            const loop = create_loop({
+                step(context: StepContext) {
+                    deltas.push(`${context.step}:${context.delta_ms}`);
+                    if (context.step === 2) clock.advance(1000);
+                },
+            }, 10, undefined, false, { clock: clock, catch_up_policy: policy, max_catch_up_steps: 2 });
+            loop.start();
+            clock.advance(1300);
+            loop.finish();
+            return { deltas: deltas.slice(3), elapsed: loop.get_elapsed() };
+        };
+
+        expect(run('batch')).toEqual({ deltas: ['3:100', '4:100', '5:100', '6:100'], elapsed: 600 });
+        expect(run('drop')).toEqual({ deltas: ['3:100', '4:100'], elapsed: 400 });
+    });
+
+    it('should bound the steps per frame in fixed-step mode', () => {
+        const clock = new ManualClock(0, 100);
+        const steps: number[] = [];
+        const loop = create_loop({
+            step(context: StepContext) { steps.push(context.missed_steps); },
+        }, 10, undefined, true, { clock: clock, fixed_step: true, catch_up_policy: 'batch', max_catch_up_steps: 1 });
+        loop.start();
+        clock.advance(100);
+        clock.set_hidden(true);
+        clock.advance(1000);
+        clock.set_hidden(false);
+        clock.advance(0);
+        loop.finish();
+
+        expect(steps).toEqual([0, 0, 9, 0]);
+    });
+
+    it('should pause while the page is hidden', () => {
+        const clock = new ManualClock();
+        const loop = new StepLoop(10, undefined, true, { clock: clock, pause_when_hidden: true });
+        const changes: string[] = [];
+        loop.on('state_change', (state) => { changes.push(state); });
+        loop.start();
+        clock.advance(200);
+
+        clock.set_hidden(true);
+        expect(loop.is_paused()).toBe(true);
+        clock.advance(5000);
+        clock.set_hidden(false);
+        expect(loop.is_running()).toBe(true);
+        clock.advance(200);
+        expect(loop.get_elapsed()).toBeLessThan(1000);
+
+        loop.pause();
+        clock.set_hidden(true);
+        clock.set_hidden(false);
+        expect(loop.is_paused()).toBe(true);
+        loop.finish();
+        clock.set_hidden(true);
+        expect(changes).toEqual(['running', 'paused', 'running', 'paused', 'finished']);
+    });
+});
+
+describe('Profiler', () => {
+    class ProfiledLoop extends StepLoop {
+        clock!: ManualClock;
+        override before() { this.clock.advance(1); }
+        override step() {
+            this.span('physics', () => this.clock.advance(2));
+            this.clock.advance(1);
+        }
+        override after() {}
+    }
+
+    const make_loop = (options: StepLoopOptions) => {
+        const clock = new ManualClock();
+        const loop = new ProfiledLoop(10, undefined, false, { clock: clock, ...options });
+        loop.clock = clock;
+        return { clock, loop };
+    };
+
+    it('should record the stages of each step and user spans', () => {
+        const { clock, loop } = make_loop({ profiler: {} });
+        loop.start();
+        clock.advance(100);
+        loop.finish();
+
+        expect(loop.get_profile().filter(span => span.step === 1)).toEqual([
+            { name: 'before', category: 'stage', step: 1, start: 100, duration: 1 },
+            { name: 'physics', category: 'span', step: 1, start: 101, duration: 2 },
+            { name: 'step', category: 'stage', step: 1, start: 101, duration: 3 },
+            { name: 'after', category: 'stage', step: 1, start: 104, duration: 0 },
+        ]);
+    });
+
+    it('should record background work until it settles', async () => {
+        const clock = new ManualClock();
+        let resolve_work = () => {};
+        const loop = create_loop({
+            background() { return new Promise<void>(resolve => { resolve_work = resolve; }); },
+        }, 10, undefined, false, { clock: clock, profiler: {}, max_background_tasks: 1 });
+        loop.start();
+        clock.advance(250);
+        resolve_work();
+        await sleep(0);
+        loop.finish();
+
+        expect(loop.get_profile().filter(span => span.category === 'background')).toEqual([
+            { name: 'background', category: 'background', step: 0, start: 0, duration: 250 },
+        ]);
+    });
+
+    it('should label spans with the step that is executing while async steps overlap', async () => {
+        const clock = new ManualClock();
+        const resolvers: (() => void)[] = [];
+        const loop = create_loop({
+            async step(context: StepContext) {
+                this.span(`sync ${context.step}`, () => {});
+                await new Promise<void>(resolve => resolvers.push(resolve));
+            },
+        }, 10, undefined, false, { clock: clock, profiler: {}, overrun_policy: 'overlap' });
+        loop.start();
+        clock.advance(100);
+        resolvers.forEach(resolve => resolve());
+        await sleep(0);
+        loop.finish();
+
+        const spans = loop.get_profile().filter(span => span.category === 'span').map(span => `${span.name} @${span.step}`);
+        expect(spans).toEqual(['sync 0 @0', 'sync 1 @1']);
+    });
+
+    it('should keep only the most recent spans', () => {
+        const { clock, loop } = make_loop({ profiler: { capacity: 6 } });
+        loop.start();
+        clock.advance(1000);
+        loop.finish();
+
+        const profile = loop.get_profile();
+        expect(profile.length).toBe(6);
+        expect(profile.map(span => `${span.step} ${span.name}`)).toEqual(['9 step', '9 after', '10 before', '10 physics', '10 step', '10 after']);
+
+        loop.clear_profile();
+        expect(loop.get_profile()).toEqual([]);
+    });
+
+    it('should not record when disabled', () => {
+        const { clock, loop } = make_loop({});
+        loop.start();
+        clock.advance(100);
+        expect(loop.get_profile()).toEqual([]);
+
+        expect(loop.set_profiler({})).toBe(true);
+        clock.advance(100);
+        expect(loop.set_profiler()).toBe(false);
+        clock.advance(100);
+        loop.finish();
+        expect(new Set(loop.get_profile().map(span => span.step))).toEqual(new Set([2]));
+    });
+
+    it('should export the capture as Chrome trace events', () => {
+        const { clock, loop } = make_loop({ profiler: {} });
+        loop.start();
+        loop.finish();
+
+        const trace = JSON.parse(JSON.stringify(loop.export_trace()));
+        expect(trace.displayTimeUnit).toBe('ms');
+        expect(trace.traceEvents).toContainEqual({ name: 'thread_name', ph: 'M', ts: 0, pid: 1, tid: 2, args: { name: 'background' } });
+        expect(trace.traceEvents).toContainEqual({ name: 'step', cat: 'stage', ph: 'X', ts: 1000, dur: 3000, pid: 1, tid: 1, args: { step: 0 } });
+    });
+});
+
+describe('Plugins', () => {
+    const make_plugin = (name: string, log: string[], dependencies?: string[]) => ({
+        name: name,
+        dependencies: dependencies,
+        steps: 0,
+        install(loop: StepLoop) {
+            log.push(`install ${name}`);
+            const off = loop.on('step', () => { this.steps++; });
+            return () => {
+                log.push(`cleanup ${name}`);
+                off();
+            };
+        },
+    });
+
+    it('should install plugins in order on start and clean them up after final()', () => {
+        const clock = new ManualClock();
+        const log: string[] = [];
+        const loop = create_loop({
+            initial() { log.push('initial'); },
+            final() { log.push('final'); },
+        }, 10, 3, false, { clock: clock });
+        loop.use(make_plugin('a', log)).use(make_plugin('b', log, ['a']));
+        expect(loop.get_plugins()).toEqual(['a', 'b']);
+
+        loop.start();
+        clock.advance(1000);
+        expect(log).toEqual(['install a', 'install b', 'initial', 'final', 'cleanup b', 'cleanup a']);
+        expect(loop.get_plugin<ReturnType<typeof make_plugin>>('a')?.steps).toBe(3);
+
+        loop.restart();
+        clock.advance(1000);
+        expect(loop.get_plugin<ReturnType<typeof make_plugin>>('b')?.steps).toBe(6);
+        expect(loop.get_plugin('c')).toBeUndefined();
+    });
+
+    it('should install a plugin right away when the loop is running', () => {
+        const clock = new ManualClock();
+        const log: string[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.start();
+        loop.use(make_plugin('late', log));
+        clock.advance(200);
+        loop.finish();
+
+        expect(log).toEqual(['install late', 'cleanup late']);
+        expect(loop.get_plugin<ReturnType<typeof make_plugin>>('late')?.steps).toBe(2);
+    });
+
+    it('should reinstall plugins when a finished loop is revived', () => {
+        const clock = new ManualClock();
+        const log: string[] = [];
+        const loop = new StepLoop(10, 2, false, { clock: clock });
+        loop.use(make_plugin('a', log));
+        loop.start();
+        clock.advance(1000);
+        expect(loop.get_state()).toBe('finished');
+
+        loop.extend_lifespan(2);
+        loop.play();
+        clock.advance(1000);
+
+        expect(log).toEqual(['install a', 'cleanup a', 'install a', 'cleanup a']);
+        expect(loop.get_plugin<ReturnType<typeof make_plugin>>('a')?.steps).toBe(4);
+    });
+
+    it('should reject duplicate plugins and missing dependencies', () => {
+        const loop = new StepLoop();
+        loop.use(make_plugin('a', []));
+        expect(() => loop.use(make_plugin('a', []))).toThrow('A plugin named "a" is already installed');
+        expect(() => loop.use(make_plugin('b', [], ['c']))).toThrow('The plugin "b" depends on "c", which must be installed first');
+        expect(loop.get_plugins()).toEqual(['a']);
+    });
+
+    it('should report errors thrown by plugins', () => {
+        const clock = new ManualClock();
+        const stages: StepLoopStage[] = [];
+        const loop = new StepLoop(10, undefined, false, { clock: clock });
+        loop.on_error = (error: unknown, stage: StepLoopStage) => { stages.push(stage); };
+        loop.use({ name: 'broken', install() { throw new Error('Test crash in install()'); } });
+        loop.start();
+        loop.finish();
+        expect(stages).toEqual(['plugin']);
+    });
+});
+
+describe('User state', () => {
+    type World = { x: number };
+
+    class WorldLoop extends StepLoop<unknown, World> {
+        override step(context: StepContext<World>) {
+            context.state!.x += 1;
+        }
+    }
+
+    it('should pass the state supplied in the constructor to each step', () => {
+        const clock = new ManualClock();
+        const state = { x: 0 };
+        const loop = new WorldLoop(10, 3, false, { clock: clock, state: state });
+        loop.start();
+        clock.advance(1000);
+
+        expect(loop.get_user_state()).toBe(state);
+        expect(state.x).toBe(3);
+        expect(loop.set_user_state({ x: 10 })).toEqual({ x: 10 });
+    });
+
+    it('should use the state returned by initial() for each run', () => {
+        const clock = new ManualClock();
+        const loop = create_loop({
+            initial() { return { x: 100 }; },
+            step(context) { (context.state as World).x += 1; },
+        }, 10, 2, false, { clock: clock, state: { x: 0 } });
+        loop.start();
+        clock.advance(1000);
+        expect(loop.get_user_state()).toEqual({ x: 102 });
+
+        loop.restart();
+        clock.advance(1000);
+        expect(loop.get_user_state()).toEqual({ x: 102 });
+    });
+
+    it('should type the state for listeners, systems, stop conditions, hooks and iteration', async () => {
+        const clock = new ManualClock();
+        const loop = create_loop({
+            step(context) { context.state!.x += 1; },
+        }, 10, undefined, false, { clock: clock, state: { x: 0 } });
+        expectTypeOf(loop).toEqualTypeOf<StepLoop<unknown, World>>();
+        expectTypeOf(loop).toExtend<StepLoop>();
+
+        const seen: string[] = [];
+        loop.on('step', (context) => { seen.push(`step ${context.state!.x}`); });
+        loop.add_system({ name: 'log', phase: 'after', run: (context) => { seen.push(`system ${context.state!.x}`); } });
+        loop.stop_when((loop) => loop.get_user_state()!.x >= 2);
+
+        const iterated: number[] = [];
+        const iterating = (async () => {
+            for await (const context of loop) {
+                expectTypeOf(context.state).toEqualTypeOf<World | undefined>();
+                iterated.push(context.step);
+            }
+        })();
+        clock.advance(1000);
+        await iterating;
+
+        expect(seen).toEqual(['step 1', 'system 1', 'step 2', 'system 2']);
+        expect(iterated).toEqual([0, 1]);
+    });
+
+    it('should keep a copy of the previous state when enabled', () => {
+        const clock = new ManualClock();
+        const loop = new WorldLoop(10, 3, false, { clock: clock, state: { x: 0 }, keep_previous_state: true });
+        const seen: Array<[number | undefined, number]> = [];
+        loop.on('after', (context) => {
+            const { state, previous_state } = context as StepContext<World>;
+            seen.push([previous_state?.x, state!.x]);
+        });
+        loop.start();
+        clock.advance(1000);
+
+        expect(seen).toEqual([[0, 1], [1, 2], [2, 3]]);
+        expect(loop.get_previous_user_state()).toEqual({ x: 2 });
+        expect(loop.set_keep_previous_state(false)).toBe(false);
+        expect(loop.get_previous_user_state()).toBeUndefined();
+    });
+
+    it('should copy the previous state with copy_state()', () => {
+        const clock = new ManualClock();
+        const copies: number[] = [];
+        class CopyLoop extends WorldLoop {
+            override copy_state(state: World): World {
+                copies.push(state.x);
+                return { x: -state.x };
+            }
+        }
+        const loop = new CopyLoop(10, 2, false, { clock: clock, state: { x: 0 }, keep_previous_state: true });
+        loop.start();
+        clock.advance(1000);
+
+        expect(copies).toEqual([0, 1]);
+        expect(loop.get_previous_user_state()).toEqual({ x: -1 });
+    });
+
+    it('should save the state in snapshots and restore it with start_from()', () => {
+        const clock = new ManualClock();
+        const loop = new WorldLoop(10, undefined, false, { clock: clock, state: { x: 0 } });
+        loop.start();
+        clock.advance(200);
+        loop.finish();
+        const snapshot = JSON.parse(JSON.stringify(loop.snapshot()));
+        expect(snapshot.state).toEqual({ x: 3 });
+
+        const resumed = new WorldLoop(10, undefined, false, { clock: clock });
+        resumed.start_from(snapshot);
+        clock.advance(100);
+        resumed.finish();
+        expect(resumed.get_user_state()).toEqual({ x: 5 });
+    });
+});